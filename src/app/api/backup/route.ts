@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { buildBackup, parseBackup, restoreBackup } from '@/lib/backup';
+import { getSessionUser } from '@/lib/supabaseServer';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const archive = await buildBackup(supabase, user.id);
+    const date = archive.exported_at.slice(0, 10);
+    return new Response(JSON.stringify(archive), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="doomdye-backup-${date}.json"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Account backup failed', error);
+    const message = error instanceof Error ? error.message : 'Backup gagal.';
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
+
+// restore ke akun yang sedang login (akun asal atau akun baru), id karakter dipetakan ulang di database
+export async function POST(request: Request) {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let archive: ReturnType<typeof parseBackup>;
+  try {
+    archive = parseBackup(await request.json());
+  } catch (err) {
+    const message = err instanceof SyntaxError ? 'File backup bukan JSON yang valid.' : (err as Error).message;
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+
+  try {
+    const result = await restoreBackup(supabase, archive);
+    return NextResponse.json({ ok: true, result });
+  } catch (error) {
+    console.error('Account restore failed', error);
+    const message = error instanceof Error ? error.message : 'Restore gagal.';
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
@@ -1,103 +1,163 @@
 import { NextResponse } from 'next/server';
-import { endOfDay, isValid, parseISO, startOfDay } from 'date-fns';
-import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { getSessionUser } from '@/lib/supabaseServer';
+import {
+  EXPORT_FORMATS,
+  exportColumns,
+  exportFilename,
+  fetchHistoryPages,
+  isExportFormat,
+  isExportMode,
+  pickColumns,
+  toCsvLine,
+  type ExportFormat,
+  type ExportMode,
+  type HistoryRow,
+} from '@/lib/historyExport';
+import { parseHistoryFilters, type HistoryFilters } from '@/lib/historyFilters';
+import { summarizeHistory, summaryColumns, summaryLabels } from '@/lib/historySummary';
+import { historyXlsxStream } from '@/lib/historyXlsx';
+import { fetchTaskDefinitions, type TaskDefinition } from '@/lib/tasks';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-const TIMESTAMP_COLUMN = 'created_at';
-
-type HistoryRow = Record<string, unknown>;
-
-function parseDateParam(value: string | null, boundary: 'start' | 'end') {
-  if (!value) {
-    return undefined;
-  }
-
-  const parsed = parseISO(value);
-  if (!isValid(parsed)) {
-    throw new Error(`Invalid ${boundary} date. Expected ISO format.`);
+// format teks: potongan pembuka, satu potongan per baris, lalu penutup
+type TextFormat = {
+  head: string;
+  row: (row: HistoryRow, index: number) => string;
+  tail: string;
+};
+
+function textFormat(format: Exclude<ExportFormat, 'xlsx'>, columns: string[]): TextFormat {
+  switch (format) {
+    case 'json':
+      return {
+        head: '[\n',
+        row: (row, index) => `${index > 0 ? ',\n' : ''}${JSON.stringify(pickColumns(row, columns))}`,
+        tail: '\n]\n',
+      };
+    case 'ndjson':
+      return { head: '', row: (row) => `${JSON.stringify(pickColumns(row, columns))}\n`, tail: '' };
+    default:
+      // header selalu ada, walau hasilnya kosong
+      return { head: toCsvLine(columns), row: (row) => toCsvLine(columns.map((column) => row[column])), tail: '' };
   }
-
-  return boundary === 'start' ? startOfDay(parsed) : endOfDay(parsed);
 }
 
-function collectColumns(rows: HistoryRow[]): string[] {
-  const columnSet = new Set<string>();
-  rows.forEach((row) => {
-    Object.keys(row).forEach((key) => columnSet.add(key));
+function textStream(pages: AsyncGenerator<HistoryRow[]>, shape: TextFormat) {
+  const encoder = new TextEncoder();
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (shape.head) controller.enqueue(encoder.encode(shape.head));
+    },
+    async pull(controller) {
+      try {
+        const page = await pages.next();
+        if (page.done) {
+          if (shape.tail) controller.enqueue(encoder.encode(shape.tail));
+          controller.close();
+          return;
+        }
+        const chunk = page.value.map((row) => shape.row(row, index++)).join('');
+        controller.enqueue(encoder.encode(chunk));
+      } catch (error) {
+        // header sudah terkirim, jadi cuma bisa memutus stream
+        console.error('history_log export failed mid-stream', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await pages.return(undefined);
+    },
   });
-  return Array.from(columnSet);
 }
 
-function toCsv(rows: HistoryRow[]): string {
-  if (rows.length === 0) {
-    return '';
-  }
-
-  const columns = collectColumns(rows);
-  const header = columns.join(',');
-
-  const lines = rows.map((row) =>
-    columns
-      .map((column) => escapeCsvValue(row[column]))
-      .join(',')
-  );
-
-  return [header, ...lines].join('\r\n');
+// baris mentah: halaman pertama dibaca sebelum response dikirim, supaya error query masih bisa jadi 500
+async function rowPages(pages: AsyncGenerator<HistoryRow[]>) {
+  const first = await pages.next();
+  return (async function* () {
+    if (first.done) return;
+    yield first.value;
+    yield* pages;
+  })();
 }
 
-function escapeCsvValue(value: unknown): string {
-  if (value === null || value === undefined) {
-    return '';
-  }
-
-  if (value instanceof Date) {
-    return value.toISOString();
-  }
-
-  const str = String(value);
-  const escaped = str.replace(/"/g, '""');
-  return /[",\n]/.test(str) ? `"${escaped}"` : escaped;
+// ringkasan butuh semua baris dulu, hasilnya satu "halaman"
+async function summaryPages(pages: AsyncGenerator<HistoryRow[]>, tasks: TaskDefinition[]) {
+  const summary = await summarizeHistory(pages, tasks);
+  return (async function* () {
+    if (summary.length > 0) yield summary;
+  })();
 }
 
 export async function GET(request: Request) {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let filters: HistoryFilters;
+  let exportFormat: ExportFormat;
+  let mode: ExportMode;
   try {
     const url = new URL(request.url);
-    const startParam = url.searchParams.get('start');
-    const endParam = url.searchParams.get('end');
-    const startDate = parseDateParam(startParam, 'start');
-    const endDate = parseDateParam(endParam, 'end');
-
-    let query = supabaseAdmin.from('history_log').select('*');
-
-    if (startDate) {
-      query = query.gte(TIMESTAMP_COLUMN, startDate.toISOString());
-    }
-
-    if (endDate) {
-      query = query.lte(TIMESTAMP_COLUMN, endDate.toISOString());
+    // filter & urutan sama persis dengan tabel di /log
+    filters = parseHistoryFilters(url.searchParams);
+    const formatParam = url.searchParams.get('format') ?? 'csv';
+    if (!isExportFormat(formatParam)) {
+      throw new Error(`Unsupported format "${formatParam}".`);
     }
-
-    const { data, error } = await query.order(TIMESTAMP_COLUMN, { ascending: false });
-
-    if (error) {
-      console.error('history_log CSV export failed', error);
-      return NextResponse.json({ success: false, error: error.message }, { status: 500 });
+    exportFormat = formatParam;
+    const modeParam = url.searchParams.get('mode') ?? 'rows';
+    if (!isExportMode(modeParam)) {
+      throw new Error(`Unsupported mode "${modeParam}".`);
     }
-
-    const rows = (data ?? []) as HistoryRow[];
-    const csv = rows.length ? toCsv(rows) : '';
-
-    return new Response(csv, {
-      headers: {
-        'Content-Type': 'text/csv; charset=utf-8',
-        'Content-Disposition': 'attachment; filename="history-log.csv"',
-        'Cache-Control': 'no-store',
-      },
-    });
+    mode = modeParam;
   } catch (err) {
-    const message = err instanceof Error ? err.message : 'Unexpected error generating CSV.';
+    const message = err instanceof Error ? err.message : 'Unexpected error generating export.';
     return NextResponse.json({ success: false, error: message }, { status: 400 });
   }
+
+  // kolom tasks jsonb dipecah per task katalog
+  const tasks = await fetchTaskDefinitions(supabase);
+  // ringkasan per karakter dihitung dari semua hari tercatat; filter task / status cuma untuk mode rows
+  const source = fetchHistoryPages(
+    supabase,
+    user.id,
+    mode === 'summary' ? { ...filters, task: undefined, status: undefined } : filters,
+    tasks
+  );
+
+  let pages: AsyncGenerator<HistoryRow[]>;
+  try {
+    pages = mode === 'summary' ? await summaryPages(source, tasks) : await rowPages(source);
+  } catch (error) {
+    console.error('history_log export failed', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error generating export.';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+
+  const columns = mode === 'summary' ? summaryColumns(tasks) : exportColumns(tasks);
+  const labels =
+    mode === 'summary'
+      ? summaryLabels(tasks)
+      : (Object.fromEntries([
+          ...columns.map((column) => [column, column.replace(/_/g, ' ')]),
+          ...tasks.map((task) => [task.key, task.label]),
+        ]) as Record<string, string>);
+  const body =
+    exportFormat === 'xlsx'
+      ? historyXlsxStream(columns, labels, pages)
+      : textStream(pages, textFormat(exportFormat, columns));
+  const contentType = EXPORT_FORMATS.find((f) => f.key === exportFormat)!.contentType;
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${exportFilename(filters, exportFormat, mode)}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
 }
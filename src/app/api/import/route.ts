@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { commitImport, planImport, validateImport } from '@/lib/historyImport';
+import { getSessionUser } from '@/lib/supabaseServer';
+import { fetchTaskDefinitions } from '@/lib/tasks';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// CSV history beberapa tahun untuk belasan karakter masih jauh di bawah ini
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Body = isi file CSV. Default cuma dry run (tidak menulis apa pun);
+ * `?commit=1` menulis baris yang valid setelah user konfirmasi.
+ */
+export async function POST(request: Request) {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const commit = new URL(request.url).searchParams.get('commit') === '1';
+  // cek content-length dulu supaya file besar tidak dibaca utuh; tanpa header (chunked) dicek
+  // dari ukuran body dalam byte, bukan panjang string
+  const tooLarge = () => NextResponse.json({ ok: false, error: 'File terlalu besar (maks 5 MB).' }, { status: 413 });
+  if (Number(request.headers.get('content-length') ?? 0) > MAX_IMPORT_BYTES) {
+    return tooLarge();
+  }
+  const body = await request.arrayBuffer();
+  if (body.byteLength > MAX_IMPORT_BYTES) {
+    return tooLarge();
+  }
+  const text = new TextDecoder().decode(body);
+
+  const [tasks, charactersResult] = await Promise.all([
+    fetchTaskDefinitions(supabase),
+    // karakter yang diarsipkan tetap boleh punya history
+    supabase.from('characters').select('id, name').eq('user_id', user.id),
+  ]);
+  if (charactersResult.error) {
+    console.error('Failed to fetch characters', {
+      message: charactersResult.error.message,
+      details: charactersResult.error.details,
+      hint: charactersResult.error.hint,
+      code: charactersResult.error.code,
+    });
+    return NextResponse.json({ ok: false, error: charactersResult.error.message }, { status: 500 });
+  }
+
+  let validated: ReturnType<typeof validateImport>;
+  try {
+    validated = validateImport(text, tasks, (charactersResult.data as { id: string; name: string }[]) ?? []);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'File CSV tidak valid.';
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+
+  try {
+    const plan = await planImport(supabase, user.id, validated.rows, validated.rejected, tasks);
+    if (!commit) {
+      return NextResponse.json({ ok: true, dryRun: true, plan });
+    }
+
+    const writes = [...plan.inserted, ...plan.updated.map((change) => change.row)];
+    const counts = writes.length > 0 ? await commitImport(supabase, writes) : { inserted: 0, updated: 0 };
+    return NextResponse.json({
+      ok: true,
+      dryRun: false,
+      ...counts,
+      unchanged: plan.unchanged,
+      rejected: plan.rejected.length,
+    });
+  } catch (error) {
+    console.error('history_log import failed', error);
+    const message = error instanceof Error ? error.message : 'Import gagal.';
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
@@ -1,26 +1,60 @@
 import { NextResponse } from 'next/server';
+import {
+  fetchServerRegions,
+  gameDay,
+  hoursSinceDailyReset,
+  previousGameDay,
+  RESET_WINDOW_HOURS,
+} from '@/lib/regions';
+import { isAuthorizedCron, runResetOnce, type ResetOutcome } from '@/lib/resetRuns';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
-  // 1) simpan snapshot harian ke history_log (default WIB di fungsi SQL)
-  let { error } = await supabaseAdmin.rpc('history_snapshot_rpc');
-  if (error) {
-    console.error('history_snapshot_rpc failed', error);
-    return NextResponse.json({ ok: false, step: 'snapshot', error: error.message }, { status: 500 });
+async function callRpc(name: string, args: Record<string, unknown>) {
+  const { data, error } = await supabaseAdmin.rpc(name, args);
+  if (error) throw error;
+  return data;
+}
+
+type RegionResult = { region: string; skipped: 'not_due' } | ({ region: string } & ResetOutcome);
+
+// cron jalan tiap jam; tiap region direset sekali di jam-jam awal setelah jam reset lokalnya
+export async function GET(request: Request) {
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json({ ok: false, error: 'Unauthorized' }, { status: 401 });
   }
 
-  // 2) jalankan reset harian (expire golden + daily_status -> 'belum')
-  ({ error } = await supabaseAdmin.rpc('daily_reset_rpc'));
-  if (error) {
-    console.error('daily_reset_rpc failed', error);
-    return NextResponse.json({ ok: false, step: 'daily_reset', error: error.message }, { status: 500 });
+  const now = new Date();
+  const regions = await fetchServerRegions(supabaseAdmin);
+  const results: RegionResult[] = [];
+
+  for (const region of regions) {
+    if (hoursSinceDailyReset(region, now) >= RESET_WINDOW_HOURS) {
+      results.push({ region: region.key, skipped: 'not_due' });
+      continue;
+    }
+
+    const today = gameDay(region, now);
+    const outcome = await runResetOnce('daily', region.key, today, [
+      // 1) simpan snapshot game day yang baru selesai ke history_log
+      {
+        name: 'snapshot',
+        run: () =>
+          callRpc('history_snapshot_rpc', { p_region: region.key, p_snapshot_date: previousGameDay(region, now) }),
+      },
+      // 2) jalankan reset harian (expire golden + task daily -> default, geser ke game day baru)
+      { name: 'daily_reset', run: () => callRpc('daily_reset_rpc', { p_region: region.key, p_game_day: today }) },
+      // 3) hapus efek berwaktu (EXP boost, pass, ...) yang sudah lewat expiry
+      { name: 'clear_effects', run: () => callRpc('clear_expired_effects_rpc', { p_region: region.key }) },
+    ]);
+    results.push({ region: region.key, ...outcome });
   }
 
-  return NextResponse.json({ ok: true });
+  // run yang masih jalan di request lain bukan error
+  const failed = results.some((r) => 'ok' in r && !r.ok && r.run?.status !== 'running');
+  return NextResponse.json({ ok: !failed, regions: results }, { status: failed ? 500 : 200 });
 }
 
-// (opsional) izinkan POST juga
 export const POST = GET;
@@ -1,24 +1,65 @@
 import { NextResponse } from 'next/server';
+import {
+  fetchServerRegions,
+  gameDay,
+  gameWeekStart,
+  hoursSinceDailyReset,
+  RESET_WINDOW_HOURS,
+} from '@/lib/regions';
+import { findRun, isAuthorizedCron, runResetOnce, type ResetOutcome } from '@/lib/resetRuns';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-async function triggerWeeklyReset() {
-  const { data, error } = await supabaseAdmin.rpc('weekly_reset_rpc');
+type RegionResult =
+  | { region: string; skipped: 'not_due' | 'waiting_for_daily' }
+  | ({ region: string } & ResetOutcome);
 
-  if (error) {
-    console.error('weekly_reset_rpc failed', error);
-    return NextResponse.json({ success: false, error: error.message }, { status: 500 });
+async function triggerWeeklyReset(request: Request) {
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
   }
 
-  return NextResponse.json({ success: true, data: data ?? null });
+  const now = new Date();
+  const regions = await fetchServerRegions(supabaseAdmin);
+  const results: RegionResult[] = [];
+
+  for (const region of regions) {
+    const today = gameDay(region, now);
+    if (today !== gameWeekStart(region, now) || hoursSinceDailyReset(region, now) >= RESET_WINDOW_HOURS) {
+      results.push({ region: region.key, skipped: 'not_due' });
+      continue;
+    }
+
+    // snapshot harian harus jalan duluan, kalau tidak progres weekly hilang dari history_log
+    const dailyRun = await findRun('daily', region.key, today).catch(() => null);
+    if (dailyRun?.status !== 'succeeded') {
+      results.push({ region: region.key, skipped: 'waiting_for_daily' });
+      continue;
+    }
+
+    const outcome = await runResetOnce('weekly', region.key, today, [
+      {
+        name: 'weekly_reset',
+        run: async () => {
+          const { data, error } = await supabaseAdmin.rpc('weekly_reset_rpc', { p_region: region.key });
+          if (error) throw error;
+          return data;
+        },
+      },
+    ]);
+    results.push({ region: region.key, ...outcome });
+  }
+
+  const failed = results.some((r) => 'ok' in r && !r.ok && r.run?.status !== 'running');
+  return NextResponse.json({ success: !failed, regions: results }, { status: failed ? 500 : 200 });
 }
 
-export async function GET() {
-  return triggerWeeklyReset();
+export async function GET(request: Request) {
+  return triggerWeeklyReset(request);
 }
 
-export async function POST() {
-  return triggerWeeklyReset();
+export async function POST(request: Request) {
+  return triggerWeeklyReset(request);
 }
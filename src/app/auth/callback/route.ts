@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { safeNextPath } from '@/lib/safeRedirect';
+import { createSupabaseServerClient } from '@/lib/supabaseServer';
+
+export const dynamic = 'force-dynamic';
+
+// target link magic link / konfirmasi email dari Supabase Auth
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const code = url.searchParams.get('code');
+  const next = safeNextPath(url.searchParams.get('next'));
+
+  if (code) {
+    const supabase = await createSupabaseServerClient();
+    const { error } = await supabase.auth.exchangeCodeForSession(code);
+    if (!error) {
+      return NextResponse.redirect(new URL(next, url.origin));
+    }
+    console.error('exchangeCodeForSession failed', error);
+  }
+
+  const loginUrl = new URL('/login', url.origin);
+  loginUrl.searchParams.set('error', 'Link login tidak valid atau sudah kedaluwarsa.');
+  return NextResponse.redirect(loginUrl);
+}
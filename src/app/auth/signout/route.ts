@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabaseServer';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  const supabase = await createSupabaseServerClient();
+  const { error } = await supabase.auth.signOut();
+  if (error) {
+    console.error('signOut failed', error);
+  }
+
+  return NextResponse.redirect(new URL('/login', request.url), { status: 303 });
+}
@@ -0,0 +1,41 @@
+import { redirect } from 'next/navigation';
+import { CharacterManager } from '@/components/CharacterManager';
+import { getSessionUser } from '@/lib/supabaseServer';
+
+export const dynamic = 'force-dynamic';
+
+type ManagedCharacter = {
+  id: string;
+  name: string;
+  sort_order: number;
+  archived_at: string | null;
+};
+
+export default async function CharactersPage() {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    redirect('/login?next=/characters');
+  }
+
+  const { data, error } = await supabase
+    .from('characters')
+    .select('id, name, sort_order, archived_at')
+    .eq('user_id', user.id)
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Failed to fetch characters', {
+      message: error.message,
+      details: error.details,
+      hint: error.hint,
+      code: error.code,
+    });
+  }
+
+  return (
+    <main className="page page--characters">
+      <CharacterManager userId={user.id} characters={(data as ManagedCharacter[]) ?? []} />
+    </main>
+  );
+}
@@ -1,11 +1,79 @@
+import { redirect } from 'next/navigation';
+import { format, parseISO, subDays } from 'date-fns';
 import { HistoryLogViewer } from '@/components/HistoryLogViewer';
+import { parseHistoryFilters, type HistoryFilters } from '@/lib/historyFilters';
+import { fetchUserRegion, gameDay } from '@/lib/regions';
+import { getSessionUser } from '@/lib/supabaseServer';
+import { fetchTaskDefinitions } from '@/lib/tasks';
 
 export const dynamic = 'force-dynamic';
 
-export default function LogPage() {
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+// query string -> filter awal; nilai yang rusak diabaikan saja, tanpa rentang -> 7 hari terakhir
+function initialFilters(query: Record<string, string | string[] | undefined>, today: string): HistoryFilters {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first) params.set(key, first);
+  });
+
+  let filters: HistoryFilters = {};
+  try {
+    filters = parseHistoryFilters(params);
+  } catch {
+    filters = {};
+  }
+
+  if (!filters.start && !filters.end) {
+    filters.start = format(subDays(parseISO(today), 7), 'yyyy-MM-dd');
+    filters.end = today;
+  }
+  return filters;
+}
+
+export default async function LogPage({ searchParams }: Props) {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    redirect('/login?next=/log');
+  }
+
+  const [tasks, region, charactersResult, query] = await Promise.all([
+    fetchTaskDefinitions(supabase),
+    fetchUserRegion(supabase, user.id),
+    // karakter yang diarsipkan tetap bisa dicari di history
+    supabase
+      .from('characters')
+      .select('id, name')
+      .eq('user_id', user.id)
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true }),
+    searchParams,
+  ]);
+
+  if (charactersResult.error) {
+    console.error('Failed to fetch characters', {
+      message: charactersResult.error.message,
+      details: charactersResult.error.details,
+      hint: charactersResult.error.hint,
+      code: charactersResult.error.code,
+    });
+  }
+
+  const page = Math.max(1, Number.parseInt(String(query.page ?? '1'), 10) || 1);
+
   return (
     <main className="page page--log">
-      <HistoryLogViewer />
+      <HistoryLogViewer
+        userId={user.id}
+        tasks={tasks}
+        characters={(charactersResult.data as { id: string; name: string }[]) ?? []}
+        region={region}
+        initialFilters={initialFilters(query, gameDay(region))}
+        initialPage={page}
+      />
     </main>
   );
 }
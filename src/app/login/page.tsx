@@ -0,0 +1,26 @@
+import { redirect } from 'next/navigation';
+import { LoginForm } from '@/components/LoginForm';
+import { safeNextPath } from '@/lib/safeRedirect';
+import { getSessionUser } from '@/lib/supabaseServer';
+
+export const dynamic = 'force-dynamic';
+
+type Props = {
+  searchParams: Promise<{ next?: string; error?: string }>;
+};
+
+export default async function LoginPage({ searchParams }: Props) {
+  const params = await searchParams;
+  const next = safeNextPath(params.next);
+
+  const { user } = await getSessionUser();
+  if (user) {
+    redirect(next);
+  }
+
+  return (
+    <main className="page page--login">
+      <LoginForm next={next} initialError={params.error ?? null} />
+    </main>
+  );
+}
@@ -1,6 +1,13 @@
 // src/app/page.tsx
+import { redirect } from 'next/navigation';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { DailyDashboard } from '@/components/DailyDashboard';
-import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { DAILY_STATE_COLUMNS, type DailyStateRow } from '@/lib/dailyState';
+import { fetchCharacterEffects, fetchEffectTypes } from '@/lib/effects';
+import { fetchGoldenDuration, fetchOpenActivations } from '@/lib/golden';
+import { fetchUserRegion } from '@/lib/regions';
+import { getSessionUser } from '@/lib/supabaseServer';
+import { fetchTaskDefinitions } from '@/lib/tasks';
 
 export const dynamic = 'force-dynamic';
 
@@ -9,24 +16,13 @@ type Character = {
   name: string;
 };
 
-type DailyState = {
-  character_id: string;
-  daily_status: 'belum' | 'in_progress' | 'udah' | null;
-  wtp: boolean | null;
-  sdn_outskirts: boolean | null;
-  sdn_core: 'belum' | 'udah' | 'skip' | null;
-  golden_active: boolean | null;
-  golden_started_at: string | null;
-};
-
-// (opsional) filter per user saat dev tanpa Auth:
-const DEV_USER_ID = '6c790f9e-04a2-4a35-9c4f-bb7c5f505fa4'; // ganti ke env kalau mau
-
-async function fetchCharacters(): Promise<Character[]> {
-  const { data, error } = await supabaseAdmin
+async function fetchCharacters(supabase: SupabaseClient, userId: string): Promise<Character[]> {
+  const { data, error } = await supabase
     .from('characters')
     .select('id, name')
-    .eq('user_id', DEV_USER_ID) // hapus baris ini kalau sudah pakai Auth
+    .eq('user_id', userId)
+    .is('archived_at', null) // karakter yang diarsip tidak tampil di board
+    .order('sort_order', { ascending: true })
     .order('name', { ascending: true });
 
   if (error) {
@@ -42,13 +38,12 @@ async function fetchCharacters(): Promise<Character[]> {
   return data ?? [];
 }
 
-async function fetchDailyStates(): Promise<DailyState[]> {
-  const { data, error } = await supabaseAdmin
-    .from('daily_state')
-    .select(
-      'character_id, daily_status, wtp, sdn_outskirts, sdn_core, golden_active, golden_started_at'
-    )
-    .eq('user_id', DEV_USER_ID); // hapus baris ini kalau sudah pakai Auth
+async function fetchDailyStates(supabase: SupabaseClient, userId: string): Promise<DailyStateRow[]> {
+  const { data, error } = await supabase
+    // satu baris terbaru per karakter; baris game day lama yang tertinggal tidak ikut dibaca
+    .from('latest_daily_state')
+    .select(DAILY_STATE_COLUMNS)
+    .eq('user_id', userId);
 
   if (error) {
     console.error('Failed to fetch daily_state', {
@@ -60,18 +55,40 @@ async function fetchDailyStates(): Promise<DailyState[]> {
     return [];
   }
 
-  return (data as DailyState[]) ?? [];
+  return (data as DailyStateRow[]) ?? [];
 }
 
 export default async function HomePage() {
-  const [characters, states] = await Promise.all([
-    fetchCharacters(),
-    fetchDailyStates(),
-  ]);
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    redirect('/login');
+  }
+
+  const [characters, states, tasks, region, goldenHours, activations, effectTypes, characterEffects] =
+    await Promise.all([
+      fetchCharacters(supabase, user.id),
+      fetchDailyStates(supabase, user.id),
+      fetchTaskDefinitions(supabase),
+      fetchUserRegion(supabase, user.id),
+      fetchGoldenDuration(supabase, user.id),
+      fetchOpenActivations(supabase, user.id),
+      fetchEffectTypes(supabase, user.id),
+      fetchCharacterEffects(supabase, user.id),
+    ]);
 
   return (
     <main className="page page--dashboard">
-      <DailyDashboard characters={characters} states={states} />
+      <DailyDashboard
+        userId={user.id}
+        region={region}
+        characters={characters}
+        states={states}
+        tasks={tasks}
+        goldenHours={goldenHours}
+        activations={activations}
+        effectTypes={effectTypes}
+        characterEffects={characterEffects}
+      />
     </main>
   );
 }
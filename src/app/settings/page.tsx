@@ -0,0 +1,34 @@
+import { redirect } from 'next/navigation';
+import { SettingsForm } from '@/components/SettingsForm';
+import { fetchEffectTypes } from '@/lib/effects';
+import { fetchGoldenDuration } from '@/lib/golden';
+import { fetchServerRegions, fetchUserRegion } from '@/lib/regions';
+import { getSessionUser } from '@/lib/supabaseServer';
+
+export const dynamic = 'force-dynamic';
+
+export default async function SettingsPage() {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    redirect('/login?next=/settings');
+  }
+
+  const [regions, region, goldenHours, effectTypes] = await Promise.all([
+    fetchServerRegions(supabase),
+    fetchUserRegion(supabase, user.id),
+    fetchGoldenDuration(supabase, user.id),
+    fetchEffectTypes(supabase, user.id),
+  ]);
+
+  return (
+    <main className="page page--settings">
+      <SettingsForm
+        userId={user.id}
+        regions={regions}
+        currentRegion={region.key}
+        currentGoldenHours={goldenHours}
+        effectTypes={effectTypes}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { parseBackup, type BackupArchive, type RestoreResult } from '@/lib/backup';
+
+export function BackupPanel() {
+  const router = useRouter();
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+
+  async function handleFile(file: File | undefined) {
+    setArchive(null);
+    setResult(null);
+    setError(null);
+    if (!file) return;
+
+    try {
+      setArchive(parseBackup(JSON.parse(await file.text())));
+    } catch (err) {
+      setError(err instanceof SyntaxError ? 'File backup bukan JSON yang valid.' : (err as Error).message);
+    }
+  }
+
+  async function handleRestore() {
+    if (!archive) return;
+    setRestoring(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/backup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(archive),
+      });
+      if (response.status === 401) throw new Error('Sesi habis, silakan login ulang.');
+      const body = await response.json().catch(() => null);
+      if (!response.ok || !body?.ok) throw new Error(body?.error ?? 'Restore gagal.');
+
+      setResult(body.result as RestoreResult);
+      setArchive(null);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Restore gagal.');
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  return (
+    <div className="settings__form settings__backup">
+      <h2 className="characters__subtitle">Backup &amp; Restore</h2>
+      <p className="settings__hint">
+        Backup berisi semua karakter, status board terakhir, seluruh history log, riwayat Golden Goose, efek berwaktu
+        dan pengaturan. Restore bisa ke akun ini atau akun baru; karakter dengan nama sama digabung, sisanya dibuat
+        baru.
+      </p>
+
+      <div>
+        <a href="/api/backup" className="dashboard__button" download>
+          Download Backup
+        </a>
+      </div>
+
+      <label className="log__date-picker">
+        <span>Restore dari file</span>
+        <input
+          type="file"
+          accept=".json,application/json"
+          disabled={restoring}
+          onChange={(e) => {
+            void handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {archive && (
+        <>
+          <p className="settings__hint">
+            Backup {archive.exported_at.slice(0, 10)}: {archive.characters.length} karakter,{' '}
+            {archive.daily_state.length} status board, {archive.history_log.length} snapshot history,{' '}
+            {archive.golden_activations.length} aktivasi Golden Goose, {archive.character_effects.length} efek aktif.
+            Data yang tanggalnya sama akan ditimpa.
+          </p>
+          <div>
+            <button type="button" className="dashboard__button" disabled={restoring} onClick={handleRestore}>
+              {restoring ? 'Memulihkan...' : 'Restore Sekarang'}
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && <p className="log__error">{error}</p>}
+      {result && (
+        <p className="login__info">
+          Restore selesai: {result.characters_created} karakter baru, {result.characters_matched} karakter dicocokkan,{' '}
+          {result.daily_state} status board, {result.history_log} snapshot history, {result.golden_activations}{' '}
+          aktivasi Golden Goose, {result.effect_types} jenis efek, {result.character_effects} efek aktif.
+        </p>
+      )}
+    </div>
+  );
+}
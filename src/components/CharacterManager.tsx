@@ -0,0 +1,289 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
+import { supabaseClient } from '@/lib/supabaseClient';
+
+type ManagedCharacter = {
+  id: string;
+  name: string;
+  sort_order: number;
+  archived_at: string | null;
+};
+
+type Props = {
+  userId: string;
+  characters: ManagedCharacter[];
+};
+
+function bySortOrder(a: ManagedCharacter, b: ManagedCharacter) {
+  return a.sort_order - b.sort_order || a.name.localeCompare(b.name);
+}
+
+export function CharacterManager({ userId, characters }: Props) {
+  const [items, setItems] = useState<ManagedCharacter[]>(characters);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const active = useMemo(() => items.filter((c) => !c.archived_at).sort(bySortOrder), [items]);
+  const archived = useMemo(() => items.filter((c) => c.archived_at).sort(bySortOrder), [items]);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Character update failed', err);
+      setError(err instanceof Error ? err.message : 'Gagal menyimpan karakter.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const handleCreate = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    void run(async () => {
+      const nextOrder = items.reduce((max, c) => Math.max(max, c.sort_order), 0) + 1;
+      const { data, error: insertError } = await supabaseClient
+        .from('characters')
+        .insert({ user_id: userId, name, sort_order: nextOrder })
+        .select('id, name, sort_order, archived_at')
+        .single();
+      if (insertError) throw insertError;
+
+      setItems((prev) => [...prev, data as ManagedCharacter]);
+      setNewName('');
+    });
+  };
+
+  const handleRename = (character: ManagedCharacter) => {
+    const name = editingName.trim();
+    if (!name || name === character.name) {
+      setEditingId(null);
+      return;
+    }
+
+    void run(async () => {
+      const { error: updateError } = await supabaseClient
+        .from('characters')
+        .update({ name })
+        .eq('id', character.id);
+      if (updateError) throw updateError;
+
+      setItems((prev) => prev.map((c) => (c.id === character.id ? { ...c, name } : c)));
+      setEditingId(null);
+    });
+  };
+
+  const setArchived = (character: ManagedCharacter, archive: boolean) => {
+    void run(async () => {
+      // karakter yang di-restore masuk ke paling bawah board
+      const patch = archive
+        ? { archived_at: new Date().toISOString() }
+        : {
+            archived_at: null,
+            sort_order: active.reduce((max, c) => Math.max(max, c.sort_order), 0) + 1,
+          };
+      const { error: updateError } = await supabaseClient
+        .from('characters')
+        .update(patch)
+        .eq('id', character.id);
+      if (updateError) throw updateError;
+
+      setItems((prev) => prev.map((c) => (c.id === character.id ? { ...c, ...patch } : c)));
+    });
+  };
+
+  const move = (index: number, delta: -1 | 1) => {
+    const target = index + delta;
+    if (target < 0 || target >= active.length) return;
+
+    const reordered = [...active];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    // satu RPC = satu transaksi: gagal di tengah tidak meninggalkan urutan setengah tersimpan
+    void run(async () => {
+      const { error: reorderError } = await supabaseClient.rpc('reorder_characters', {
+        p_ids: reordered.map((c) => c.id),
+      });
+      if (reorderError) throw reorderError;
+
+      const positions = new Map(reordered.map((c, i) => [c.id, i + 1]));
+      setItems((prev) => prev.map((c) => (positions.has(c.id) ? { ...c, sort_order: positions.get(c.id)! } : c)));
+    });
+  };
+
+  return (
+    <section className="dashboard characters">
+      <header className="dashboard__header">
+        <div>
+          <h1>Karakter</h1>
+          <p>Tambah, ganti nama, arsipkan, dan atur urutan karakter di daily board.</p>
+        </div>
+        <div className="dashboard__actions">
+          <Link href="/" className="dashboard__button">Kembali ke Board</Link>
+        </div>
+      </header>
+
+      <form className="characters__create" onSubmit={handleCreate}>
+        <input
+          className="characters__input"
+          placeholder="Nama karakter baru"
+          aria-label="Nama karakter baru"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          disabled={busy}
+        />
+        <button type="submit" className="dashboard__button" disabled={busy || !newName.trim()}>
+          Tambah
+        </button>
+      </form>
+
+      {error && <p className="log__error">{error}</p>}
+
+      <div className="dashboard__table-wrapper">
+        <table className="dashboard__table">
+          <thead>
+            <tr>
+              <th>Urutan</th>
+              <th>Character</th>
+              <th>Aksi</th>
+            </tr>
+          </thead>
+          <tbody>
+            {active.length === 0 && (
+              <tr>
+                <td colSpan={3} className="log__empty">Belum ada karakter aktif.</td>
+              </tr>
+            )}
+            {active.map((character, index) => (
+              <tr key={character.id}>
+                <td>
+                  <div className="characters__order">
+                    <button
+                      type="button"
+                      className="characters__icon-button"
+                      aria-label={`Naikkan ${character.name}`}
+                      onClick={() => move(index, -1)}
+                      disabled={busy || index === 0}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      className="characters__icon-button"
+                      aria-label={`Turunkan ${character.name}`}
+                      onClick={() => move(index, 1)}
+                      disabled={busy || index === active.length - 1}
+                    >
+                      ↓
+                    </button>
+                  </div>
+                </td>
+                <td>
+                  {editingId === character.id ? (
+                    <input
+                      className="characters__input"
+                      aria-label={`Nama baru ${character.name}`}
+                      value={editingName}
+                      autoFocus
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename(character);
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      disabled={busy}
+                    />
+                  ) : (
+                    <span className="dashboard__name">{character.name}</span>
+                  )}
+                </td>
+                <td>
+                  <div className="characters__actions">
+                    {editingId === character.id ? (
+                      <>
+                        <button type="button" className="log__export" onClick={() => handleRename(character)} disabled={busy}>
+                          Simpan
+                        </button>
+                        <button type="button" className="log__export" onClick={() => setEditingId(null)} disabled={busy}>
+                          Batal
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          type="button"
+                          className="log__export"
+                          onClick={() => {
+                            setEditingId(character.id);
+                            setEditingName(character.name);
+                          }}
+                          disabled={busy}
+                        >
+                          Rename
+                        </button>
+                        <button
+                          type="button"
+                          className="log__export"
+                          onClick={() => setArchived(character, true)}
+                          disabled={busy}
+                        >
+                          Arsipkan
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {archived.length > 0 && (
+        <>
+          <h2 className="characters__subtitle">Diarsipkan</h2>
+          <div className="dashboard__table-wrapper">
+            <table className="dashboard__table">
+              <thead>
+                <tr>
+                  <th>Character</th>
+                  <th>Diarsip Sejak</th>
+                  <th>Aksi</th>
+                </tr>
+              </thead>
+              <tbody>
+                {archived.map((character) => (
+                  <tr key={character.id}>
+                    <td>
+                      <span className="dashboard__name">{character.name}</span>
+                    </td>
+                    <td>{character.archived_at ? format(parseISO(character.archived_at), 'dd MMM yyyy') : '--'}</td>
+                    <td>
+                      <button
+                        type="button"
+                        className="log__export"
+                        onClick={() => setArchived(character, false)}
+                        disabled={busy}
+                      >
+                        Restore
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
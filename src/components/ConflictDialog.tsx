@@ -0,0 +1,116 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { optionLabel, type TaskDefinition, type TaskValues } from '@/lib/tasks';
+
+type Fields = {
+  tasks: TaskValues;
+  golden_goose: 'Inactive' | 'Active';
+  golden_started_at: string | null;
+};
+
+type Props = {
+  name: string;
+  tasks: TaskDefinition[];
+  mine: Fields;
+  theirs: Fields;
+  onKeepMine: () => void;
+  onTakeTheirs: () => void;
+  onMerge: (merged: Fields) => void;
+};
+
+type Side = 'mine' | 'theirs';
+
+const GOLDEN_KEY = 'golden_goose';
+
+export function ConflictDialog({ name, tasks, mine, theirs, onKeepMine, onTakeTheirs, onMerge }: Props) {
+  // cuma field yang beda yang perlu dipilih
+  const fields = useMemo(() => {
+    const list = tasks
+      .filter((definition) => mine.tasks[definition.key] !== theirs.tasks[definition.key])
+      .map((definition) => ({
+        key: definition.key,
+        label: definition.label,
+        mine: optionLabel(definition, mine.tasks[definition.key]),
+        theirs: optionLabel(definition, theirs.tasks[definition.key]),
+      }));
+    if (mine.golden_goose !== theirs.golden_goose || mine.golden_started_at !== theirs.golden_started_at) {
+      list.push({ key: GOLDEN_KEY, label: 'Golden Goose', mine: mine.golden_goose, theirs: theirs.golden_goose });
+    }
+    return list;
+  }, [tasks, mine, theirs]);
+
+  const [choices, setChoices] = useState<Record<string, Side>>({});
+
+  const handleMerge = () => {
+    const pick = (key: string): Side => choices[key] ?? 'mine';
+    const golden = pick(GOLDEN_KEY) === 'mine' ? mine : theirs;
+    onMerge({
+      tasks: Object.fromEntries(
+        tasks.map((definition) => [
+          definition.key,
+          (pick(definition.key) === 'mine' ? mine : theirs).tasks[definition.key],
+        ])
+      ),
+      golden_goose: golden.golden_goose,
+      golden_started_at: golden.golden_started_at,
+    });
+  };
+
+  return (
+    <div className="conflict" role="dialog" aria-modal="true" aria-labelledby="conflict-title">
+      <div className="conflict__panel">
+        <h2 id="conflict-title">Konflik data: {name}</h2>
+        <p className="conflict__hint">
+          Karakter ini sudah diubah di tab / perangkat lain sebelum perubahanmu tersimpan.
+        </p>
+
+        {fields.length > 0 && (
+          <table className="dashboard__table conflict__table">
+            <thead>
+              <tr>
+                <th>Field</th>
+                <th>Punyaku</th>
+                <th>Punya Mereka</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map((field) => (
+                <tr key={field.key}>
+                  <td>{field.label}</td>
+                  {(['mine', 'theirs'] as const).map((side) => (
+                    <td key={side}>
+                      <label className="conflict__choice">
+                        <input
+                          type="radio"
+                          name={`conflict-${field.key}`}
+                          checked={(choices[field.key] ?? 'mine') === side}
+                          onChange={() => setChoices((prev) => ({ ...prev, [field.key]: side }))}
+                        />
+                        <span>{field[side]}</span>
+                      </label>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="conflict__actions">
+          <button type="button" className="dashboard__button" onClick={onKeepMine}>
+            Pakai Punyaku
+          </button>
+          <button type="button" className="dashboard__button dashboard__button--ghost" onClick={onTakeTheirs}>
+            Pakai Punya Mereka
+          </button>
+          {fields.length > 1 && (
+            <button type="button" className="dashboard__button dashboard__button--ghost" onClick={handleMerge}>
+              Gabungkan Pilihan
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,81 +1,65 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import Link from 'next/link';
-import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import { format } from 'date-fns';
+import { ConflictDialog } from '@/components/ConflictDialog';
+import { TimedEffects } from '@/components/TimedEffects';
+import {
+  fetchDailyState,
+  saveDailyStates,
+  StaleWriteError,
+  type DailyStatePatch,
+  type DailyStateRow,
+} from '@/lib/dailyState';
+import { activateEffect, removeEffect, type CharacterEffect, type EffectType } from '@/lib/effects';
+import {
+  formatRemaining,
+  goldenExpiry,
+  isExpiringSoon,
+  GOLDEN_WARNING_HOURS,
+  type GoldenActivation,
+} from '@/lib/golden';
+import {
+  enqueueWrite,
+  isNetworkError,
+  isPermanentWriteError,
+  listPendingWrites,
+  removePendingWrite,
+  type PendingWrite,
+} from '@/lib/offlineQueue';
+import { gameDay, type ServerRegion } from '@/lib/regions';
 import { supabaseClient } from '@/lib/supabaseClient';
+import {
+  decodeTaskValue,
+  encodeTaskValue,
+  optionLabel,
+  taskValueOf,
+  type TaskDefinition,
+  type TaskValue,
+  type TaskValues,
+} from '@/lib/tasks';
+import { WritePipeline } from '@/lib/writePipeline';
 
 type Character = { id: string; name: string };
 
-type DailyStateDB = {
-  character_id: string;
-  daily_status: 'belum' | 'in_progress' | 'udah' | null;
-  wtp: boolean | null;
-  sdn_outskirts: boolean | null;
-  sdn_core: 'belum' | 'udah' | 'skip' | null;
-  golden_active: boolean | null;
-  golden_started_at: string | null;
-};
-
 type Props = {
+  userId: string;
+  region: ServerRegion;
   characters: Character[];
-  states: DailyStateDB[];
+  states: DailyStateRow[];
+  tasks: TaskDefinition[];
+  // durasi Golden Goose setting user (jam) + aktivasi yang sedang jalan
+  goldenHours: number;
+  activations: GoldenActivation[];
+  // efek berwaktu lain (EXP boost, pass, ...): jenis yang didefinisikan user + yang sedang aktif
+  effectTypes: EffectType[];
+  characterEffects: CharacterEffect[];
 };
 
-// DEV ONLY: ganti dengan user_id / auth.uid() milikmu saat sudah siap Auth
-const DEV_USER_ID = '6c790f9e-04a2-4a35-9c4f-bb7c5f505fa4';
-
-// WIB YYYY-MM-DD
-function todayJakartaISODate() {
-  const now = new Date();
-  const utcMs = now.getTime() + now.getTimezoneOffset() * 60 * 1000;
-  const wib = new Date(utcMs + 7 * 60 * 60 * 1000);
-  return wib.toISOString().slice(0, 10);
-}
-
 /* ---------- UI <-> DB mapping helpers ---------- */
 
-// Daily
-const DAILY_LABELS = ['Not Started', 'In Progress', 'Completed'] as const;
-type DailyLabel = (typeof DAILY_LABELS)[number];
-const dailyLabelToDb: Record<DailyLabel, DailyStateDB['daily_status']> = {
-  'Not Started': 'belum',
-  'In Progress': 'in_progress',
-  Completed: 'udah',
-};
-const dbToDailyLabel: Record<NonNullable<DailyStateDB['daily_status']>, DailyLabel> = {
-  belum: 'Not Started',
-  in_progress: 'In Progress',
-  udah: 'Completed',
-};
-
-// WTP (boolean) - treat Cleared = true, sisanya false
-const WTP_LABELS = ['Locked', 'Available', 'Cleared'] as const;
-type WtpLabel = (typeof WTP_LABELS)[number];
-const wtpLabelToDb = (label: WtpLabel) => label === 'Cleared';
-const dbToWtpLabel = (value: boolean | null): WtpLabel => (value ? 'Cleared' : 'Locked');
-
-// SDN Outskirts (boolean) - Skipped dianggap false
-const OUT_LABELS = ['Not Started', 'Cleared', 'Skipped'] as const;
-type OutLabel = (typeof OUT_LABELS)[number];
-const outskirtsLabelToDb = (label: OutLabel) => label === 'Cleared';
-const dbToOutskirtsLabel = (value: boolean | null): OutLabel => (value ? 'Cleared' : 'Not Started');
-
-// SDN Core (enum)
-const CORE_LABELS = ['Not Started', 'Cleared', 'Skipped'] as const;
-type CoreLabel = (typeof CORE_LABELS)[number];
-const coreLabelToDb: Record<CoreLabel, NonNullable<DailyStateDB['sdn_core']>> = {
-  'Not Started': 'belum',
-  Cleared: 'udah',
-  Skipped: 'skip',
-};
-const dbToCoreLabel: Record<NonNullable<DailyStateDB['sdn_core']>, CoreLabel> = {
-  belum: 'Not Started',
-  udah: 'Cleared',
-  skip: 'Skipped',
-};
-
-// Golden Goose (boolean)
+// Golden Goose (boolean) - bukan task katalog karena punya waktu mulai & expiry
 const GOLDEN_LABELS = ['Inactive', 'Active'] as const;
 type GoldenLabel = (typeof GOLDEN_LABELS)[number];
 const goldenLabelToDb = (label: GoldenLabel) => label === 'Active';
@@ -83,289 +67,1169 @@ const dbToGoldenLabel = (value: boolean | null): GoldenLabel => (value ? 'Active
 
 /* ---------- Row shape for UI ---------- */
 
-type RowState = {
-  characterId: string;
-  name: string;
-  daily: DailyLabel;
-  wtp: WtpLabel;
-  sdn_outskirts: OutLabel;
-  sdn_core: CoreLabel;
+type RowFields = {
+  tasks: TaskValues;
   golden_goose: GoldenLabel;
   golden_started_at: string | null;
-  isSaving: boolean;
+};
+
+type RowState = RowFields & {
+  characterId: string;
+  name: string;
   lastError: string | null;
+  // write ditolak karena basi: nilai lokal vs nilai di server
+  conflict: { mine: RowFields; theirs: DailyStateRow | null } | null;
 };
 
-const DEFAULT_ROW: Omit<RowState, 'characterId' | 'name'> = {
-  daily: 'Not Started',
-  wtp: 'Locked',
-  sdn_outskirts: 'Not Started',
-  sdn_core: 'Not Started',
-  golden_goose: 'Inactive',
-  golden_started_at: null,
-  isSaving: false,
-  lastError: null,
+// baris daily_state yang jadi dasar write berikutnya (date, revision)
+type RowBase = { date: string | null; revision: number | null };
+
+// edit yang belum terkirim: cuma field yang berubah
+type FieldEdit = {
+  tasks: TaskValues;
+  golden?: { golden_goose: GoldenLabel; golden_started_at: string | null };
 };
 
-export function DailyDashboard({ characters, states }: Props) {
+type PendingEdit = FieldEdit & {
+  // nilai baris sebelum edit pertama, untuk rollback kalau write gagal
+  before: RowFields;
+  // bagian dari aksi massal -> gagal satu, batal semua
+  bulk: boolean;
+};
+
+// satu langkah undo/redo: nilai sebelum & sesudah aksi per karakter, cuma field yang diubah
+type HistoryEntry = {
+  label: string;
+  before: Map<string, FieldEdit>;
+  after: Map<string, FieldEdit>;
+  // undo aksi massal ikut dikirim sebagai satu batch
+  bulk: boolean;
+};
+
+type Toast = { message: string; characterIds: string[]; action: 'undo' | 'redo' };
+
+// berapa lama baris yang diubah dari tab / device lain diberi highlight
+const REMOTE_HIGHLIGHT_MS = 4000;
+// interval retry antrian offline kalau koneksi tidak benar-benar putus
+const REPLAY_INTERVAL_MS = 30_000;
+// edit beruntun dalam jendela ini digabung jadi satu write
+const COALESCE_MS = 600;
+// countdown Golden Goose & efek berwaktu diperbarui tiap menit
+const CLOCK_TICK_MS = 60_000;
+// langkah undo yang disimpan per sesi
+const UNDO_LIMIT = 50;
+const TOAST_MS = 6000;
+
+function stateFields(state: DailyStateRow | null | undefined, definitions: TaskDefinition[]): RowFields {
+  return {
+    tasks: Object.fromEntries(
+      definitions.map((definition) => [definition.key, taskValueOf(definition, state?.tasks)])
+    ) as TaskValues,
+    golden_goose: dbToGoldenLabel(state?.golden_active ?? null),
+    golden_started_at: state?.golden_started_at ?? null,
+  };
+}
+
+function buildRows(
+  characters: Character[],
+  mapByChar: Map<string, DailyStateRow>,
+  definitions: TaskDefinition[]
+): RowState[] {
+  return characters.map((character) => ({
+    characterId: character.id,
+    name: character.name,
+    ...stateFields(mapByChar.get(character.id), definitions),
+    lastError: null,
+    conflict: null,
+  }));
+}
+
+function buildBases(mapByChar: Map<string, DailyStateRow>) {
+  return new Map<string, RowBase>(
+    [...mapByChar.values()].map((state) => [state.character_id, { date: state.date, revision: state.revision }])
+  );
+}
+
+function pickFields(row: RowFields): RowFields {
+  return { tasks: row.tasks, golden_goose: row.golden_goose, golden_started_at: row.golden_started_at };
+}
+
+// nilai baris setelah patch diterapkan (untuk konflik dari antrian offline)
+function applyPatch(fields: RowFields, patch: DailyStatePatch): RowFields {
+  const golden = 'golden_active' in patch;
+  return {
+    tasks: { ...fields.tasks, ...patch.tasks },
+    golden_goose: golden ? dbToGoldenLabel(patch.golden_active ?? null) : fields.golden_goose,
+    golden_started_at: golden ? patch.golden_started_at ?? null : fields.golden_started_at,
+  };
+}
+
+function applyEdit<T extends RowFields>(row: T, edit: FieldEdit): T {
+  return { ...row, tasks: { ...row.tasks, ...edit.tasks }, ...edit.golden };
+}
+
+// edit `next` ditumpuk di atas `current`; `before` tetap dari edit paling awal
+function mergeEdits(current: PendingEdit, next: PendingEdit): PendingEdit {
+  return {
+    tasks: { ...current.tasks, ...next.tasks },
+    golden: next.golden ?? current.golden,
+    before: current.before,
+    bulk: current.bulk || next.bulk,
+  };
+}
+
+// rollback cuma field yang nilainya masih hasil edit ini (belum diubah lagi sesudahnya)
+function revertEdit<T extends RowFields>(row: T, edit: PendingEdit): T {
+  const tasks = { ...row.tasks };
+  Object.entries(edit.tasks).forEach(([key, value]) => {
+    if (tasks[key] === value) tasks[key] = edit.before.tasks[key];
+  });
+  const golden =
+    edit.golden &&
+    row.golden_goose === edit.golden.golden_goose &&
+    row.golden_started_at === edit.golden.golden_started_at;
+  return {
+    ...row,
+    tasks,
+    golden_goose: golden ? edit.before.golden_goose : row.golden_goose,
+    golden_started_at: golden ? edit.before.golden_started_at : row.golden_started_at,
+  };
+}
+
+// nilai baris saat ini untuk field yang disentuh `edit` (sisi "sebelum" entri undo)
+function captureFields(row: RowFields, edit: FieldEdit): FieldEdit {
+  return {
+    tasks: Object.fromEntries(Object.keys(edit.tasks).map((key) => [key, row.tasks[key]])) as TaskValues,
+    golden: edit.golden && { golden_goose: row.golden_goose, golden_started_at: row.golden_started_at },
+  };
+}
+
+// timestamp dari server (+00:00) dan dari toISOString (Z) bisa beda teks untuk waktu yang sama
+function sameInstant(a: string | null, b: string | null) {
+  return a === b || (a !== null && b !== null && Date.parse(a) === Date.parse(b));
+}
+
+// bagian `target` yang masih boleh diterapkan: field yang nilainya masih `expected`
+// (belum diubah lagi dari tempat lain) dan memang berbeda; null kalau tidak ada
+function matchingEdit(row: RowFields, expected: FieldEdit, target: FieldEdit): FieldEdit | null {
+  const tasks = Object.fromEntries(
+    Object.entries(target.tasks).filter(
+      ([key, value]) => row.tasks[key] === expected.tasks[key] && row.tasks[key] !== value
+    )
+  ) as TaskValues;
+  const golden =
+    target.golden &&
+    expected.golden &&
+    row.golden_goose === expected.golden.golden_goose &&
+    sameInstant(row.golden_started_at, expected.golden.golden_started_at) &&
+    (row.golden_goose !== target.golden.golden_goose ||
+      !sameInstant(row.golden_started_at, target.golden.golden_started_at))
+      ? target.golden
+      : undefined;
+  return Object.keys(tasks).length > 0 || golden ? { tasks, golden } : null;
+}
+
+function toPatch(characterId: string, edit: FieldEdit, date: string, base: RowBase | undefined): DailyStatePatch {
+  const patch: DailyStatePatch = {
+    character_id: characterId,
+    date,
+    // revision lama cuma berlaku kalau barisnya memang untuk game day ini
+    base_revision: base?.date === date ? base.revision : null,
+  };
+  if (Object.keys(edit.tasks).length > 0) patch.tasks = edit.tasks;
+  if (edit.golden) {
+    patch.golden_active = goldenLabelToDb(edit.golden.golden_goose);
+    patch.golden_started_at = patch.golden_active
+      ? edit.golden.golden_started_at ?? new Date().toISOString()
+      : null;
+  }
+  return patch;
+}
+
+function sameFields(row: RowFields, fields: RowFields) {
+  return (
+    row.golden_goose === fields.golden_goose &&
+    row.golden_started_at === fields.golden_started_at &&
+    Object.keys(fields.tasks).every((key) => row.tasks[key] === fields.tasks[key])
+  );
+}
+
+export function DailyDashboard({
+  userId,
+  region,
+  characters,
+  states,
+  tasks,
+  goldenHours,
+  activations,
+  effectTypes,
+  characterEffects,
+}: Props) {
   const mapByChar = useMemo(() => {
-    const map = new Map<string, DailyStateDB>();
+    const map = new Map<string, DailyStateRow>();
     states.forEach((state) => map.set(state.character_id, state));
     return map;
   }, [states]);
 
-  const [rows, setRows] = useState<RowState[]>(() =>
-    characters.map((character) => {
-      const state = mapByChar.get(character.id);
-      return {
-        characterId: character.id,
-        name: character.name,
-        daily: state?.daily_status ? dbToDailyLabel[state.daily_status] : DEFAULT_ROW.daily,
-        wtp: dbToWtpLabel(state?.wtp ?? null),
-        sdn_outskirts: dbToOutskirtsLabel(state?.sdn_outskirts ?? null),
-        sdn_core: state?.sdn_core ? dbToCoreLabel[state.sdn_core] : DEFAULT_ROW.sdn_core,
-        golden_goose: dbToGoldenLabel(state?.golden_active ?? null),
-        golden_started_at: state?.golden_started_at ?? null,
-        isSaving: false,
-        lastError: null,
-      };
-    })
-  );
+  const [rows, setRows] = useState<RowState[]>(() => buildRows(characters, mapByChar, tasks));
+  // dibaca saat write benar-benar dikirim, jadi disimpan di ref (bukan state) supaya
+  // write berikutnya langsung memakai revision hasil write sebelumnya
+  const baseRef = useRef<Map<string, RowBase>>(buildBases(mapByChar));
 
   useEffect(() => {
-    setRows(
-      characters.map((character) => {
-        const state = mapByChar.get(character.id);
-        return {
-          characterId: character.id,
-          name: character.name,
-          daily: state?.daily_status ? dbToDailyLabel[state.daily_status] : DEFAULT_ROW.daily,
-          wtp: dbToWtpLabel(state?.wtp ?? null),
-          sdn_outskirts: dbToOutskirtsLabel(state?.sdn_outskirts ?? null),
-          sdn_core: state?.sdn_core ? dbToCoreLabel[state.sdn_core] : DEFAULT_ROW.sdn_core,
-          golden_goose: dbToGoldenLabel(state?.golden_active ?? null),
-          golden_started_at: state?.golden_started_at ?? null,
-          isSaving: false,
-          lastError: null,
-        };
+    setRows(buildRows(characters, mapByChar, tasks));
+    baseRef.current = buildBases(mapByChar);
+  }, [characters, mapByChar, tasks]);
+
+  // snapshot rows terbaru untuk callback di luar render (realtime)
+  const rowsRef = useRef(rows);
+  useEffect(() => {
+    rowsRef.current = rows;
+  }, [rows]);
+
+  // karakter yang masih punya write di antrian offline (diisi di bawah)
+  const pendingCharsRef = useRef<Set<string>>(new Set());
+
+  /* ---------- write pipeline ---------- */
+
+  // render ulang tiap status pipeline berubah (edit masuk / mulai / selesai kirim)
+  const [, setPipelineTick] = useState(0);
+  const sendRef = useRef<(batch: Map<string, PendingEdit>) => Promise<void>>(async () => {});
+  const [pipeline] = useState(
+    () =>
+      new WritePipeline<PendingEdit>({
+        delayMs: COALESCE_MS,
+        merge: mergeEdits,
+        send: (batch) => sendRef.current(batch),
+        onChange: () => setPipelineTick((tick) => tick + 1),
       })
-    );
-  }, [characters, mapByChar]);
+  );
 
-  async function upsertFor(characterId: string, patch: Partial<RowState>) {
-    setRows((prev) =>
-      prev.map((row) =>
-        row.characterId === characterId
-          ? {
-              ...row,
-              ...patch,
-              isSaving: true,
-              lastError: null,
-            }
-          : row
+  // edit yang masih tertahan langsung dikirim saat tab disembunyikan / ditutup
+  useEffect(() => {
+    const flushNow = () => void pipeline.flush();
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') flushNow();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('pagehide', flushNow);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('pagehide', flushNow);
+      flushNow();
+      pipeline.dispose();
+    };
+  }, [pipeline]);
+
+  // karakter yang baru berubah dari tab / device lain -> highlight sebentar
+  const [remoteChanged, setRemoteChanged] = useState<Set<string>>(() => new Set());
+  const highlightTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  useEffect(() => {
+    const timers = highlightTimers.current;
+
+    const markRemote = (characterId: string) => {
+      setRemoteChanged((prev) => new Set(prev).add(characterId));
+      clearTimeout(timers.get(characterId));
+      timers.set(
+        characterId,
+        setTimeout(() => {
+          timers.delete(characterId);
+          setRemoteChanged((prev) => {
+            const next = new Set(prev);
+            next.delete(characterId);
+            return next;
+          });
+        }, REMOTE_HIGHLIGHT_MS)
+      );
+    };
+
+    const channel = supabaseClient
+      .channel(`daily_state:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'daily_state', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const state = payload.new as Partial<DailyStateRow>;
+          // DELETE / baris hari lain tidak relevan untuk board hari ini
+          if (!state.character_id || state.date !== gameDay(region)) return;
+
+          const current = rowsRef.current.find((row) => row.characterId === state.character_id);
+          // event lama yang datang terlambat, baris sedang menunggu keputusan konflik,
+          // masih ada edit lokal yang belum / sedang dikirim, atau masih ada write offline
+          // yang belum terkirim (write itu yang akan mendeteksi konflik)
+          if (!current || current.conflict || pipeline.isBusy(current.characterId)) return;
+          if (pendingCharsRef.current.has(current.characterId)) return;
+          const base = baseRef.current.get(current.characterId);
+          if (base?.date === state.date && (base.revision ?? -1) >= (state.revision ?? 0)) return;
+
+          const fields = stateFields(state as DailyStateRow, tasks);
+          // echo dari save kita sendiri nilainya sama -> cukup ambil revision-nya
+          const changed = !sameFields(current, fields);
+
+          baseRef.current.set(state.character_id, { date: state.date, revision: state.revision ?? null });
+          setRows((prev) =>
+            prev.map((row) => (row.characterId === state.character_id ? { ...row, ...fields } : row))
+          );
+          if (changed) markRemote(state.character_id);
+        }
       )
-    );
+      .subscribe();
 
-    try {
-      const date = todayJakartaISODate();
-      const baseRow = rows.find((row) => row.characterId === characterId);
-      if (!baseRow) {
-        throw new Error('Row not found');
-      }
-      const next = { ...baseRow, ...patch };
-
-      const payload = {
-        user_id: DEV_USER_ID,
-        character_id: characterId,
-        date,
-        daily_status: dailyLabelToDb[next.daily],
-        wtp: wtpLabelToDb(next.wtp),
-        sdn_outskirts: outskirtsLabelToDb(next.sdn_outskirts),
-        sdn_core: coreLabelToDb[next.sdn_core],
-        golden_active: goldenLabelToDb(next.golden_goose),
-        golden_started_at: goldenLabelToDb(next.golden_goose)
-          ? next.golden_started_at ?? new Date().toISOString()
-          : null,
-      };
-
-      const { error } = await supabaseClient
-        .from('daily_state')
-        .upsert(payload, { onConflict: 'date,character_id' });
-
-      if (error) {
-        throw error;
-      }
+    return () => {
+      void supabaseClient.removeChannel(channel);
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+    };
+  }, [userId, region, tasks, pipeline]);
 
+  const updateRow = useCallback((characterId: string, patch: Partial<RowState>) => {
+    setRows((prev) => prev.map((row) => (row.characterId === characterId ? { ...row, ...patch } : row)));
+  }, []);
+
+  // `mine` null -> pakai nilai lokal baris saat ini (termasuk edit yang belum terkirim)
+  const openConflict = useCallback(
+    async (characterId: string, date: string, mine: RowFields | null, message: string) => {
+      let theirs: DailyStateRow | null = null;
+      try {
+        theirs = await fetchDailyState(supabaseClient, characterId, date);
+      } catch (fetchError) {
+        console.error('Failed to reload daily_state after conflict', fetchError);
+      }
       setRows((prev) =>
         prev.map((row) =>
           row.characterId === characterId
-            ? {
-                ...next,
-                golden_started_at: payload.golden_started_at,
-                isSaving: false,
-                lastError: null,
-              }
+            ? { ...row, lastError: message, conflict: { mine: mine ?? pickFields(row), theirs } }
             : row
         )
       );
+    },
+    []
+  );
+
+  // batalkan edit di `batch` pada tampilan lokal
+  function revertEdits(batch: Map<string, PendingEdit>, messageFor: (characterId: string) => string) {
+    setRows((prev) =>
+      prev.map((row) => {
+        const edit = batch.get(row.characterId);
+        return edit ? { ...revertEdit(row, edit), lastError: messageFor(row.characterId) } : row;
+      })
+    );
+  }
+
+  /* ---------- offline queue ---------- */
+
+  const [pending, setPending] = useState<PendingWrite[]>([]);
+  const pendingChars = useMemo(
+    () => new Set(pending.flatMap((item) => item.patches.map((patch) => patch.character_id))),
+    [pending]
+  );
+  const replaying = useRef(false);
+
+  const refreshPending = useCallback(async () => {
+    try {
+      const items = await listPendingWrites(userId);
+      pendingCharsRef.current = new Set(items.flatMap((item) => item.patches.map((patch) => patch.character_id)));
+      setPending(items);
     } catch (error) {
-      console.error('Failed to upsert daily_state', error);
-      setRows((prev) =>
-        prev.map((row) =>
-          row.characterId === characterId
-            ? {
-                ...row,
-                isSaving: false,
-                lastError: error instanceof Error ? error.message : 'Failed to save',
+      console.error('Failed to read offline queue', error);
+    }
+  }, [userId]);
+
+  async function queueWrites(patches: DailyStatePatch[], batch: Map<string, PendingEdit>) {
+    // batch aksi massal masuk antrian sebagai satu item, di-replay dalam satu save_daily_states
+    const bulk = [...batch.values()].some((edit) => edit.bulk);
+    try {
+      for (const item of bulk ? [patches] : patches.map((patch) => [patch])) {
+        await enqueueWrite(userId, item);
+      }
+      setRows((prev) => prev.map((row) => (batch.has(row.characterId) ? { ...row, lastError: null } : row)));
+    } catch (error) {
+      console.error('Failed to queue daily_state write', error);
+      revertEdits(batch, () => 'Offline dan gagal menyimpan ke antrian.');
+    }
+    await refreshPending();
+  }
+
+  // replay berurutan; berhenti di error jaringan / sementara pertama dan coba lagi nanti.
+  // item cuma dibuang kalau ditolak permanen (konflik, nilai tidak valid)
+  const replayPending = useCallback(async () => {
+    if (replaying.current || !navigator.onLine) return;
+    replaying.current = true;
+
+    // lewat pipeline supaya tidak balapan dengan edit yang sedang dikirim
+    await pipeline.run(async () => {
+      try {
+        const items = await listPendingWrites(userId);
+        // write offline berturut-turut dibuat di atas revision yang sama; setelah yang pertama
+        // tersimpan, yang berikutnya dipindah ke revision hasilnya
+        const rebased = new Map<string, { from: number | null; to: number }>();
+
+        for (const item of items) {
+          const patches = item.patches.map((queued) => {
+            const chain = rebased.get(`${queued.character_id}|${queued.date}`);
+            return chain && queued.base_revision === chain.from ? { ...queued, base_revision: chain.to } : queued;
+          });
+          const bulk = patches.length > 1;
+
+          try {
+            const saved = await saveDailyStates(supabaseClient, patches);
+            await removePendingWrite(item.id);
+
+            saved.forEach((row) => {
+              const queued = item.patches.find((patch) => patch.character_id === row.character_id);
+              if (queued?.date === row.date) {
+                rebased.set(`${row.character_id}|${row.date}`, { from: queued.base_revision, to: row.revision });
               }
-            : row
-        )
+              const base = baseRef.current.get(row.character_id);
+              if (!base?.date || row.date >= base.date) {
+                baseRef.current.set(row.character_id, { date: row.date, revision: row.revision });
+              }
+
+              // game day yang sudah lewat reset: server menulisnya ke history_log hari itu dan
+              // mengembalikan baris terbaru (task non-daily / golden mungkin ikut terbawa ke sana)
+              if (queued && queued.date !== row.date) {
+                const notice = `Perubahan offline (${queued.date}) disimpan ke history hari itu; reset sudah lewat.`;
+                setRows((prev) =>
+                  prev.map((current) =>
+                    current.characterId !== row.character_id
+                      ? current
+                      : row.date === gameDay(region)
+                        ? { ...current, ...stateFields(row, tasks), lastError: notice }
+                        : { ...current, lastError: notice }
+                  )
+                );
+              }
+            });
+          } catch (error) {
+            if (isNetworkError(error)) break;
+
+            const message = (error as { message?: string } | null)?.message ?? 'Failed to save';
+            // error sementara (server 5xx, sesi habis, ...): item tetap di antrian, dicoba lagi nanti
+            if (!isPermanentWriteError(error)) {
+              console.error('Failed to replay queued daily_state write, keeping it queued', error);
+              patches.forEach((patch) =>
+                updateRow(patch.character_id, {
+                  lastError: `Perubahan offline (${patch.date}) belum terkirim: ${message}`,
+                })
+              );
+              break;
+            }
+
+            await removePendingWrite(item.id);
+            // batch aksi massal batal sebagai satu kesatuan; karakter yang basi dapat dialog konflik
+            const staleId =
+              error instanceof StaleWriteError ? (bulk ? error.characterId : patches[0].character_id) : null;
+            if (!staleId) console.error('Failed to replay queued daily_state write', error);
+            for (const patch of patches) {
+              const current = rowsRef.current.find((row) => row.characterId === patch.character_id);
+              if (patch.character_id === staleId && current && patch.date === gameDay(region)) {
+                await openConflict(patch.character_id, patch.date, applyPatch(current, patch), message);
+              } else {
+                updateRow(patch.character_id, {
+                  lastError: bulk
+                    ? `Bulk update offline (${patch.date}) dibatalkan: ${message}`
+                    : `Perubahan offline (${patch.date}) gagal: ${message}`,
+                });
+              }
+            }
+          }
+        }
+      } catch (error) {
+        console.error('Failed to replay offline queue', error);
+      } finally {
+        replaying.current = false;
+        await refreshPending();
+      }
+    });
+  }, [userId, region, tasks, pipeline, refreshPending, openConflict, updateRow]);
+
+  useEffect(() => {
+    void replayPending();
+    const handleOnline = () => void replayPending();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [replayPending]);
+
+  // koneksi putus-nyambung tanpa event `online`: coba berkala selama masih ada antrian
+  useEffect(() => {
+    if (pending.length === 0) return;
+    const timer = setInterval(() => void replayPending(), REPLAY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [pending.length, replayPending]);
+
+  /**
+   * Kirim edit yang terkumpul sebagai satu panggilan save_daily_states (satu transaksi),
+   * cuma field yang berubah. Dipanggil pipeline, jadi tidak pernah jalan bersamaan.
+   * Edit biasa yang kena konflik membuka dialog untuk karakter itu dan sisanya dikirim ulang;
+   * batch aksi massal dibatalkan sebagai satu kesatuan.
+   */
+  async function sendEdits(batch: Map<string, PendingEdit>) {
+    // game day region user, bukan tanggal kalender; ikut tersimpan kalau masuk antrian offline
+    const date = gameDay(region);
+    const ids = [...batch.keys()];
+    const patches = ids.map((characterId) =>
+      toPatch(characterId, batch.get(characterId)!, date, baseRef.current.get(characterId))
+    );
+
+    // masih ada antrian untuk karakter ini -> ikut antri supaya urutannya terjaga
+    if (!navigator.onLine || ids.some((characterId) => pendingCharsRef.current.has(characterId))) {
+      await queueWrites(patches, batch);
+      return;
+    }
+
+    try {
+      const saved = await saveDailyStates(supabaseClient, patches);
+      saved.forEach((row) => baseRef.current.set(row.character_id, { date: row.date, revision: row.revision }));
+      setRows((prev) => prev.map((row) => (batch.has(row.characterId) ? { ...row, lastError: null } : row)));
+    } catch (error) {
+      if (isNetworkError(error)) {
+        await queueWrites(patches, batch);
+        return;
+      }
+
+      const bulk = [...batch.values()].some((edit) => edit.bulk);
+      if (error instanceof StaleWriteError && (batch.size === 1 || !bulk)) {
+        const staleId = batch.size === 1 ? ids[0] : error.characterId;
+        batch.forEach((edit, characterId) => {
+          if (characterId !== staleId) pipeline.requeue(characterId, edit);
+        });
+        // edit yang masuk sesudahnya sudah ada di nilai lokal, ikut jadi "punyaku" di dialog
+        pipeline.take([staleId]);
+        await openConflict(staleId, date, null, error.message);
+        return;
+      }
+
+      console.error('Failed to save daily_state', error);
+      const message = error instanceof Error ? error.message : 'Failed to save';
+      const staleId = error instanceof StaleWriteError ? error.characterId : null;
+      revertEdits(batch, (characterId) =>
+        batch.size === 1 || characterId === staleId || !bulk ? message : `Bulk update dibatalkan: ${message}`
       );
     }
   }
 
-  const now = new Date();
+  useEffect(() => {
+    sendRef.current = sendEdits;
+  });
+
+  /**
+   * Terapkan edit di layar sekarang juga lalu serahkan ke pipeline. Edit biasa menunggu edit
+   * berikutnya (debounce); aksi massal langsung dikirim sebagai satu batch, edit yang masih
+   * tertahan untuk karakter itu ikut di batch yang sama.
+   */
+  function applyEdits(edits: Map<string, FieldEdit>, bulk: boolean) {
+    const batch = new Map<string, PendingEdit>();
+    rows.forEach((row) => {
+      const edit = edits.get(row.characterId);
+      if (edit) batch.set(row.characterId, { ...edit, before: pickFields(row), bulk });
+    });
+    if (batch.size === 0) return;
+
+    setRows((prev) =>
+      prev.map((row) => {
+        const edit = batch.get(row.characterId);
+        return edit ? { ...applyEdit(row, edit), lastError: null } : row;
+      })
+    );
+
+    if (!bulk) {
+      batch.forEach((edit, characterId) => pipeline.push(characterId, edit));
+      return;
+    }
+    const send = new Map(batch);
+    pipeline.take([...batch.keys()]).forEach((held, characterId) => {
+      send.set(characterId, mergeEdits(held, batch.get(characterId)!));
+    });
+    void pipeline.sendNow(send);
+  }
+
+  /* ---------- undo / redo ---------- */
+
+  // cuma edit sesi ini; undo & redo lewat applyEdits, jadi jalur simpannya sama dengan edit biasa
+  const [history, setHistory] = useState<{ undo: HistoryEntry[]; redo: HistoryEntry[] }>({ undo: [], redo: [] });
+  const [toast, setToast] = useState<Toast | null>(null);
+  const toastTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  function showToast(next: Toast) {
+    clearTimeout(toastTimer.current);
+    setToast(next);
+    toastTimer.current = setTimeout(() => setToast(null), TOAST_MS);
+  }
+
+  useEffect(() => () => clearTimeout(toastTimer.current), []);
+
+  // edit dari user: dicatat di stack undo (redo dibuang) lalu diterapkan
+  function commitEdits(label: string, edits: Map<string, FieldEdit>, bulk: boolean) {
+    const before = new Map<string, FieldEdit>();
+    rows.forEach((row) => {
+      const edit = edits.get(row.characterId);
+      if (edit) before.set(row.characterId, captureFields(row, edit));
+    });
+    if (before.size === 0) return;
+
+    setHistory((prev) => ({
+      undo: [...prev.undo, { label, before, after: edits, bulk }].slice(-UNDO_LIMIT),
+      redo: [],
+    }));
+    applyEdits(edits, bulk);
+    showToast({ message: label, characterIds: [...before.keys()], action: 'undo' });
+  }
+
+  // field yang sudah diubah lagi sesudah aksi itu (dari sini atau device lain) tidak ditimpa
+  function replayEntry(entry: HistoryEntry, direction: 'undo' | 'redo') {
+    const [expected, target] = direction === 'undo' ? [entry.after, entry.before] : [entry.before, entry.after];
+    const edits = new Map<string, FieldEdit>();
+    rows
+      .filter((row) => !row.conflict)
+      .forEach((row) => {
+        const from = expected.get(row.characterId);
+        const to = target.get(row.characterId);
+        const edit = from && to ? matchingEdit(row, from, to) : null;
+        if (edit) edits.set(row.characterId, edit);
+      });
+
+    applyEdits(edits, entry.bulk);
+    showToast({
+      message:
+        edits.size > 0
+          ? `${direction === 'undo' ? 'Undo' : 'Redo'}: ${entry.label}`
+          : `${entry.label} sudah diubah lagi, tidak ada yang dikembalikan`,
+      characterIds: [...edits.keys()],
+      action: direction === 'undo' ? 'redo' : 'undo',
+    });
+  }
+
+  function undo() {
+    const entry = history.undo[history.undo.length - 1];
+    if (!entry) return;
+    setHistory((prev) => ({ undo: prev.undo.slice(0, -1), redo: [...prev.redo, entry] }));
+    replayEntry(entry, 'undo');
+  }
+
+  function redo() {
+    const entry = history.redo[history.redo.length - 1];
+    if (!entry) return;
+    setHistory((prev) => ({ undo: [...prev.undo, entry], redo: prev.redo.slice(0, -1) }));
+    replayEntry(entry, 'redo');
+  }
+
+  // handler keyboard dipasang sekali, fungsi terbarunya dibaca lewat ref
+  const shortcutRef = useRef({ undo, redo });
+  useEffect(() => {
+    shortcutRef.current = { undo, redo };
+  });
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      // undo bawaan browser di field teks tetap jalan
+      if (target?.isContentEditable || target instanceof HTMLTextAreaElement) return;
+      if (target instanceof HTMLInputElement && target.type !== 'checkbox') return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        shortcutRef.current.undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        shortcutRef.current.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+
+  function upsertFor(characterId: string, edit: FieldEdit, label: string) {
+    commitEdits(label, new Map([[characterId, edit]]), false);
+  }
+
+  /* ---------- bulk actions ---------- */
+
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [bulkTaskKey, setBulkTaskKey] = useState(() => tasks[0]?.key ?? '');
+  const bulkTask = tasks.find((definition) => definition.key === bulkTaskKey) ?? tasks[0];
+  const [bulkValue, setBulkValue] = useState('');
+
+  // pilihan yang karakternya sudah hilang dari board dibuang
+  const selectedIds = rows.filter((row) => selected.has(row.characterId)).map((row) => row.characterId);
+  const allSelected = rows.length > 0 && selectedIds.length === rows.length;
+
+  function toggleSelected(characterId: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(characterId)) next.delete(characterId);
+      else next.add(characterId);
+      return next;
+    });
+  }
+
+  // ubah beberapa task sekaligus untuk karakter `ids`; cuma task yang berubah yang dikirim
+  function bulkUpdate(label: string, ids: string[], buildTasks: (row: RowState) => TaskValues) {
+    const edits = new Map<string, FieldEdit>();
+    rows
+      .filter((row) => ids.includes(row.characterId) && !row.conflict)
+      .forEach((row) => {
+        const changed = Object.fromEntries(
+          Object.entries(buildTasks(row)).filter(([key, value]) => row.tasks[key] !== value)
+        ) as TaskValues;
+        if (Object.keys(changed).length > 0) edits.set(row.characterId, { tasks: changed });
+      });
+    if (edits.size === 0) return;
+
+    commitEdits(label, edits, true);
+  }
+
+  function characterLabel(ids: string[]) {
+    return ids.length === 1
+      ? rows.find((row) => row.characterId === ids[0])?.name ?? '1 karakter'
+      : `${ids.length} karakter`;
+  }
+
+  function setTaskFor(ids: string[], definition: TaskDefinition, value: TaskValue) {
+    const label = `${characterLabel(ids)} · ${definition.label} → ${optionLabel(definition, value)}`;
+    bulkUpdate(label, ids, () => ({ [definition.key]: value }));
+  }
+
+  function markDone(ids: string[]) {
+    bulkUpdate(`${characterLabel(ids)} · semua selesai`, ids, () =>
+      Object.fromEntries(
+        tasks
+          .filter((definition) => definition.done_value !== null)
+          .map((definition) => [definition.key, definition.done_value])
+      )
+    );
+  }
+
+  /* ---------- keyboard grid ---------- */
+
+  // kolom yang bisa diedit dari keyboard: task katalog lalu Golden Goose; value = isi <option>
+  const gridColumns = useMemo(
+    () => [
+      ...tasks.map((definition) => ({
+        key: definition.key,
+        label: definition.label,
+        options: definition.options.map((option) => ({ value: encodeTaskValue(option.value), label: option.label })),
+      })),
+      { key: 'golden_goose', label: 'Golden Goose', options: GOLDEN_LABELS.map((label) => ({ value: label, label })) },
+    ],
+    [tasks]
+  );
+
+  // roving tabindex: cuma sel aktif yang masuk urutan Tab, sisanya lewat panah
+  const [activeCell, setActiveCell] = useState({ row: 0, col: 0 });
+  const cellRefs = useRef(new Map<string, HTMLSelectElement>());
+
+  function cellValue(row: RowState, col: number) {
+    const definition = tasks[col];
+    return definition ? encodeTaskValue(taskValueOf(definition, row.tasks)) : row.golden_goose;
+  }
+
+  // jalur yang sama untuk onChange (mouse) dan keyboard
+  function setCellValue(row: RowState, col: number, value: string) {
+    if (value === cellValue(row, col)) return;
+
+    const definition = tasks[col];
+    if (definition) {
+      const decoded = decodeTaskValue(definition, value);
+      upsertFor(
+        row.characterId,
+        { tasks: { [definition.key]: decoded } },
+        `${row.name} · ${definition.label} → ${optionLabel(definition, decoded)}`
+      );
+      return;
+    }
+
+    const golden = value as GoldenLabel;
+    upsertFor(
+      row.characterId,
+      {
+        tasks: {},
+        golden: {
+          golden_goose: golden,
+          golden_started_at: golden === 'Active' ? new Date().toISOString() : null,
+        },
+      },
+      `${row.name} · Golden Goose → ${golden}`
+    );
+  }
+
+  function focusCell(row: number, col: number) {
+    const next = {
+      row: Math.min(Math.max(row, 0), rows.length - 1),
+      col: Math.min(Math.max(col, 0), gridColumns.length - 1),
+    };
+    setActiveCell(next);
+    cellRefs.current.get(`${next.row}:${next.col}`)?.focus();
+  }
+
+  function handleCellKey(event: React.KeyboardEvent<HTMLSelectElement>, rowIndex: number, col: number) {
+    const { key } = event;
+    // Alt+panah tetap membuka daftar bawaan; Ctrl/Cmd cuma dipakai Home/End (shortcut lain, mis. undo, dibiarkan)
+    if (event.altKey || ((event.ctrlKey || event.metaKey) && key !== 'Home' && key !== 'End')) return;
+
+    const row = rows[rowIndex];
+    const options = gridColumns[col].options;
+    const current = options.findIndex((option) => option.value === cellValue(row, col));
+    const jumpGrid = event.ctrlKey || event.metaKey;
+
+    let handled = true;
+    if (key === 'ArrowUp') focusCell(rowIndex - 1, col);
+    else if (key === 'ArrowDown') focusCell(rowIndex + 1, col);
+    else if (key === 'ArrowLeft') focusCell(rowIndex, col - 1);
+    else if (key === 'ArrowRight') focusCell(rowIndex, col + 1);
+    else if (key === 'Home') focusCell(jumpGrid ? 0 : rowIndex, 0);
+    else if (key === 'End') focusCell(jumpGrid ? rows.length - 1 : rowIndex, gridColumns.length - 1);
+    else if (key === 'Enter' || key === ' ') {
+      // Shift = mundur
+      const step = event.shiftKey ? -1 : 1;
+      setCellValue(row, col, options[(current + step + options.length) % options.length].value);
+    } else if (/^[1-9]$/.test(key)) {
+      const option = options[Number(key) - 1];
+      if (option) setCellValue(row, col, option.value);
+    } else if (/^\p{L}$/u.test(key)) {
+      // huruf: status berikutnya yang labelnya diawali huruf itu (tekan lagi untuk lanjut)
+      const letter = key.toLowerCase();
+      const match = options
+        .map((_, offset) => options[(current + 1 + offset) % options.length])
+        .find((option) => option.label.toLowerCase().startsWith(letter));
+      if (match) setCellValue(row, col, match.value);
+    } else {
+      handled = false;
+    }
+
+    if (handled) event.preventDefault();
+  }
+
+  /* ---------- Golden Goose & timed effects ---------- */
+
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // efek berwaktu disimpan langsung ke character_effects, tidak lewat pipeline daily_state
+  const [effects, setEffects] = useState<CharacterEffect[]>(characterEffects);
+  const [effectBusy, setEffectBusy] = useState<Set<string>>(() => new Set());
+
+  useEffect(() => {
+    setEffects(characterEffects);
+  }, [characterEffects]);
+
+  async function runEffect(characterId: string, action: () => Promise<void>) {
+    setEffectBusy((prev) => new Set(prev).add(characterId));
+    try {
+      await action();
+    } catch (error) {
+      console.error('Failed to update character_effects', error);
+      const message = error instanceof Error ? error.message : 'Failed to save';
+      updateRow(characterId, { lastError: `Efek gagal disimpan: ${message}` });
+    } finally {
+      setEffectBusy((prev) => {
+        const next = new Set(prev);
+        next.delete(characterId);
+        return next;
+      });
+    }
+  }
+
+  function activateFor(characterId: string, effectTypeId: number) {
+    void runEffect(characterId, async () => {
+      const saved = await activateEffect(supabaseClient, userId, characterId, effectTypeId);
+      setEffects((prev) => [...prev.filter((effect) => effect.id !== saved.id), saved]);
+    });
+  }
+
+  function removeFor(effect: CharacterEffect) {
+    void runEffect(effect.character_id, async () => {
+      await removeEffect(supabaseClient, effect.id);
+      setEffects((prev) => prev.filter((item) => item.id !== effect.id));
+    });
+  }
+
+  /* ---------- conflict resolution ---------- */
+
+  const conflictRow = rows.find((row) => row.conflict);
+
+  function resolveConflict(characterId: string, resolution: RowFields | 'theirs') {
+    const row = rows.find((r) => r.characterId === characterId);
+    if (!row?.conflict) return;
+    const { theirs } = row.conflict;
+    const theirFields = stateFields(theirs, tasks);
+
+    baseRef.current.set(characterId, { date: theirs?.date ?? null, revision: theirs?.revision ?? null });
+    pipeline.take([characterId]);
+
+    if (resolution === 'theirs') {
+      updateRow(characterId, { ...theirFields, lastError: null, conflict: null });
+      return;
+    }
+
+    // simpan ulang di atas revision mereka
+    updateRow(characterId, { ...resolution, lastError: null, conflict: null });
+    const edit: PendingEdit = {
+      tasks: resolution.tasks,
+      golden: { golden_goose: resolution.golden_goose, golden_started_at: resolution.golden_started_at },
+      before: theirFields,
+      bulk: false,
+    };
+    void pipeline.sendNow(new Map([[characterId, edit]]));
+  }
+
+  const activationByChar = new Map(activations.map((activation) => [activation.character_id, activation]));
+  const effectsByChar = new Map<string, CharacterEffect[]>();
+  [...effects]
+    .sort((a, b) => a.expires_at.localeCompare(b.expires_at))
+    .forEach((effect) => {
+      effectsByChar.set(effect.character_id, [...(effectsByChar.get(effect.character_id) ?? []), effect]);
+    });
+  // sel aktif bisa hilang kalau jumlah karakter berkurang
+  const focusRow = Math.min(activeCell.row, rows.length - 1);
+
+  // status simpan aksi terakhir untuk toast
+  const toastRows = toast ? rows.filter((row) => toast.characterIds.includes(row.characterId)) : [];
+  const toastStatus = toastRows.some((row) => pipeline.isBusy(row.characterId))
+    ? 'Menyimpan...'
+    : toastRows.some((row) => row.lastError)
+      ? 'Gagal disimpan'
+      : toastRows.some((row) => pendingChars.has(row.characterId))
+        ? 'Masuk antrian offline'
+        : 'Tersimpan';
 
   return (
     <section className="dashboard">
+      {conflictRow?.conflict && (
+        <ConflictDialog
+          key={conflictRow.characterId}
+          name={conflictRow.name}
+          tasks={tasks}
+          mine={conflictRow.conflict.mine}
+          theirs={stateFields(conflictRow.conflict.theirs, tasks)}
+          onKeepMine={() => resolveConflict(conflictRow.characterId, conflictRow.conflict!.mine)}
+          onTakeTheirs={() => resolveConflict(conflictRow.characterId, 'theirs')}
+          onMerge={(merged) => resolveConflict(conflictRow.characterId, merged)}
+        />
+      )}
       <header className="dashboard__header">
         <div>
           <h1>DoomDye</h1>
           <p>Track Record Dragon Nest Character Progress</p>
         </div>
         <div className="dashboard__actions">
+          {pending.length > 0 && (
+            <span className="dashboard__pending" title="Perubahan offline yang belum terkirim">
+              {pending.length} pending
+            </span>
+          )}
+          <Link href="/characters" className="dashboard__button">Kelola Karakter</Link>
           <Link href="/log" className="dashboard__button">Buka History Log</Link>
+          <Link href="/settings" className="dashboard__button">Pengaturan</Link>
+          <form action="/auth/signout" method="post">
+            <button type="submit" className="dashboard__button dashboard__button--ghost">Keluar</button>
+          </form>
         </div>
       </header>
 
+      {selectedIds.length > 0 && bulkTask && (
+        <div className="dashboard__bulk" role="toolbar" aria-label="Aksi massal">
+          <span className="dashboard__bulk-count">{selectedIds.length} dipilih</span>
+          <select
+            className="dashboard__select dashboard__select--compact"
+            aria-label="Task untuk aksi massal"
+            value={bulkTask.key}
+            onChange={(e) => {
+              setBulkTaskKey(e.target.value);
+              setBulkValue('');
+            }}
+          >
+            {tasks.map((definition) => (
+              <option key={definition.key} value={definition.key}>
+                {definition.label}
+              </option>
+            ))}
+          </select>
+          <select
+            className="dashboard__select dashboard__select--compact"
+            aria-label="Status untuk aksi massal"
+            value={bulkValue}
+            onChange={(e) => setBulkValue(e.target.value)}
+          >
+            <option value="">Pilih status…</option>
+            {bulkTask.options.map((option) => (
+              <option key={encodeTaskValue(option.value)} value={encodeTaskValue(option.value)}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="log__export"
+            disabled={!bulkValue}
+            onClick={() => setTaskFor(selectedIds, bulkTask, decodeTaskValue(bulkTask, bulkValue))}
+          >
+            Terapkan
+          </button>
+          <button type="button" className="log__export" onClick={() => markDone(selectedIds)}>
+            Tandai Semua Selesai
+          </button>
+          <button type="button" className="log__export" onClick={() => setSelected(new Set())}>
+            Batal Pilih
+          </button>
+        </div>
+      )}
+
       <div className="dashboard__table-wrapper">
-        <table className="dashboard__table">
+        <table
+          className="dashboard__table"
+          role="grid"
+          aria-label="Daily board"
+          aria-describedby="dashboard-grid-hint"
+          aria-rowcount={rows.length + 1}
+        >
           <thead>
-            <tr>
+            <tr aria-rowindex={1}>
+              <th className="dashboard__check">
+                <input
+                  type="checkbox"
+                  aria-label="Pilih semua karakter"
+                  checked={allSelected}
+                  onChange={() => setSelected(allSelected ? new Set() : new Set(rows.map((row) => row.characterId)))}
+                />
+              </th>
               <th>Character</th>
-              <th>Daily</th>
-              <th>WTP</th>
-              <th>SDN Outskirts</th>
-              <th>SDN Core</th>
+              {tasks.map((definition) => (
+                <th key={definition.key}>
+                  <div className="dashboard__column-head">
+                    <span>{definition.label}</span>
+                    {/* set semua karakter sekaligus; value dikosongkan lagi setelah dipakai */}
+                    <select
+                      className="dashboard__column-set"
+                      aria-label={`Set semua ${definition.label}`}
+                      value=""
+                      onChange={(e) => {
+                        if (!e.target.value) return;
+                        setTaskFor(
+                          rows.map((row) => row.characterId),
+                          definition,
+                          decodeTaskValue(definition, e.target.value)
+                        );
+                      }}
+                    >
+                      <option value="">Set semua…</option>
+                      {definition.options.map((option) => (
+                        <option key={encodeTaskValue(option.value)} value={encodeTaskValue(option.value)}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </th>
+              ))}
               <th>Golden Goose</th>
               <th>Expired Golden</th>
+              <th>Efek</th>
               <th>Status</th>
             </tr>
           </thead>
           <tbody>
-            {rows.map((row) => {
-              const startedAt = row.golden_started_at ? new Date(row.golden_started_at) : null;
-              const expiredAt = startedAt ? addDays(startedAt, 7) : null;
-              const daysLeft = expiredAt ? differenceInCalendarDays(expiredAt, now) : null;
-              const isExpired = typeof daysLeft === 'number' && daysLeft < 0;
-              const expiredLabel = expiredAt
-                ? `${isExpired ? 'Expired' : `${daysLeft} hari lagi`} (${format(expiredAt, 'yyyy-MM-dd')})`
-                : '--';
-
-              const selectClass = `dashboard__select${row.isSaving ? ' dashboard__select--loading' : ''}`;
-              const statusClass = `dashboard__status${row.isSaving ? ' dashboard__status--saving' : ''}`;
+            {rows.map((row, rowIndex) => {
+              const expiredAt = goldenExpiry(
+                row.golden_started_at,
+                activationByChar.get(row.characterId),
+                goldenHours
+              );
+              const isExpired = expiredAt !== null && expiredAt <= now;
+              const expiringSoon = expiredAt !== null && isExpiringSoon(expiredAt, now);
+              const remaining = isExpired
+                ? 'Expired'
+                : expiredAt && `${formatRemaining(expiredAt.getTime() - now.getTime())} lagi`;
+              const expiredLabel = expiredAt ? `${remaining} (${format(expiredAt, 'yyyy-MM-dd HH:mm')})` : '--';
+
+              // tetap bisa diedit selama menyimpan; edit baru ikut write berikutnya
+              const isSaving = pipeline.isBusy(row.characterId);
+              const selectClass = `dashboard__select${isSaving ? ' dashboard__select--loading' : ''}`;
+              const isPending = pendingChars.has(row.characterId);
+              const statusClass = `dashboard__status${
+                isSaving ? ' dashboard__status--saving' : isPending ? ' dashboard__status--pending' : ''
+              }`;
               const expiredClass = `dashboard__expired${isExpired ? ' dashboard__expired--active' : ''}`;
+              const isRemote = remoteChanged.has(row.characterId);
+              const rowClass = [row.lastError && 'dashboard__row--error', isRemote && 'dashboard__row--remote']
+                .filter(Boolean)
+                .join(' ');
 
               return (
-                <tr key={row.characterId} className={row.lastError ? 'dashboard__row--error' : undefined}>
-                  <td>
+                <tr key={row.characterId} className={rowClass || undefined} aria-rowindex={rowIndex + 2}>
+                  <td className="dashboard__check" role="gridcell">
+                    <input
+                      type="checkbox"
+                      aria-label={`Pilih ${row.name}`}
+                      checked={selected.has(row.characterId)}
+                      onChange={() => toggleSelected(row.characterId)}
+                    />
+                  </td>
+                  <td role="rowheader">
                     <div className="dashboard__cell-title">
                       <span className="dashboard__name">{row.name}</span>
+                      <button
+                        type="button"
+                        className="dashboard__row-done"
+                        aria-label={`${row.name} tandai semua selesai`}
+                        onClick={() => markDone([row.characterId])}
+                      >
+                        ✓ Semua selesai
+                      </button>
+                      {isRemote && <span className="dashboard__remote">Diperbarui dari perangkat lain</span>}
                       {row.lastError && <span className="dashboard__error">{row.lastError}</span>}
                     </div>
                   </td>
-                  <td>
-                    <select
-                      className={selectClass}
-                      aria-label={`${row.name} Daily`}
-                      value={row.daily}
-                      onChange={(event) =>
-                        upsertFor(row.characterId, { daily: event.target.value as DailyLabel })
-                      }
-                      disabled={row.isSaving}
-                    >
-                      {DAILY_LABELS.map((option) => (
-                        <option key={option} value={option}>
-                          {option}
-                        </option>
-                      ))}
-                    </select>
+                  {gridColumns.map((column, col) => (
+                    <td key={column.key} role="gridcell">
+                      <select
+                        ref={(element) => {
+                          const key = `${rowIndex}:${col}`;
+                          if (element) cellRefs.current.set(key, element);
+                          else cellRefs.current.delete(key);
+                        }}
+                        className={selectClass}
+                        aria-label={`${row.name} ${column.label}`}
+                        tabIndex={rowIndex === focusRow && col === activeCell.col ? 0 : -1}
+                        value={cellValue(row, col)}
+                        onFocus={() => setActiveCell({ row: rowIndex, col })}
+                        onKeyDown={(event) => handleCellKey(event, rowIndex, col)}
+                        onChange={(event) => setCellValue(row, col, event.target.value)}
+                      >
+                        {column.options.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  ))}
+                  <td className={expiredClass} role="gridcell">
+                    {expiredLabel}
+                    {expiringSoon && (
+                      <span className="dashboard__badge" title={`Golden Goose habis dalam ${GOLDEN_WARNING_HOURS} jam`}>
+                        &lt; {GOLDEN_WARNING_HOURS} jam
+                      </span>
+                    )}
                   </td>
-                  <td>
-                    <select
-                      className={selectClass}
-                      aria-label={`${row.name} WTP`}
-                      value={row.wtp}
-                      onChange={(event) =>
-                        upsertFor(row.characterId, { wtp: event.target.value as WtpLabel })
-                      }
-                      disabled={row.isSaving}
-                    >
-                      {WTP_LABELS.map((option) => (
-                        <option key={option} value={option}>
-                          {option}
-                        </option>
-                      ))}
-                    </select>
+                  <td role="gridcell">
+                    <TimedEffects
+                      name={row.name}
+                      effects={effectsByChar.get(row.characterId) ?? []}
+                      effectTypes={effectTypes}
+                      now={now}
+                      busy={effectBusy.has(row.characterId)}
+                      onActivate={(effectTypeId) => activateFor(row.characterId, effectTypeId)}
+                      onRemove={removeFor}
+                    />
                   </td>
-                  <td>
-                    <select
-                      className={selectClass}
-                      aria-label={`${row.name} SDN Outskirts`}
-                      value={row.sdn_outskirts}
-                      onChange={(event) =>
-                        upsertFor(row.characterId, { sdn_outskirts: event.target.value as OutLabel })
-                      }
-                      disabled={row.isSaving}
-                    >
-                      {OUT_LABELS.map((option) => (
-                        <option key={option} value={option}>
-                          {option}
-                        </option>
-                      ))}
-                    </select>
-                  </td>
-                  <td>
-                    <select
-                      className={selectClass}
-                      aria-label={`${row.name} SDN Core`}
-                      value={row.sdn_core}
-                      onChange={(event) =>
-                        upsertFor(row.characterId, { sdn_core: event.target.value as CoreLabel })
-                      }
-                      disabled={row.isSaving}
-                    >
-                      {CORE_LABELS.map((option) => (
-                        <option key={option} value={option}>
-                          {option}
-                        </option>
-                      ))}
-                    </select>
-                  </td>
-                  <td>
-                    <select
-                      className={selectClass}
-                      aria-label={`${row.name} Golden Goose`}
-                      value={row.golden_goose}
-                      onChange={(event) => {
-                        const value = event.target.value as GoldenLabel;
-                        upsertFor(row.characterId, {
-                          golden_goose: value,
-                          golden_started_at: value === 'Active' ? new Date().toISOString() : null,
-                        });
-                      }}
-                      disabled={row.isSaving}
-                    >
-                      {GOLDEN_LABELS.map((option) => (
-                        <option key={option} value={option}>
-                          {option}
-                        </option>
-                      ))}
-                    </select>
-                  </td>
-                  <td className={expiredClass}>{expiredLabel}</td>
-                  <td>
-                    <span className={statusClass}>{row.isSaving ? 'Saving...' : 'Ready'}</span>
+                  <td role="gridcell">
+                    <span className={statusClass}>{isSaving ? 'Saving...' : isPending ? 'Pending' : 'Ready'}</span>
                   </td>
                 </tr>
               );
@@ -373,6 +1237,37 @@ export function DailyDashboard({ characters, states }: Props) {
           </tbody>
         </table>
       </div>
+      <p id="dashboard-grid-hint" className="dashboard__hint">
+        Panah untuk pindah sel, Home/End ke ujung baris (Ctrl untuk ujung tabel), angka atau huruf awal untuk memilih
+        status, Enter/Space untuk ganti ke status berikutnya (Shift = sebelumnya).
+      </p>
+
+      {toast && (
+        <div className="dashboard__toast" role="status" aria-live="polite">
+          <span>
+            {toast.message}
+            {toastRows.length > 0 && <span className="dashboard__toast-status"> · {toastStatus}</span>}
+          </span>
+          {toast.action === 'undo' && history.undo.length > 0 && (
+            <button type="button" className="log__export" onClick={undo} title="Ctrl+Z">
+              Undo
+            </button>
+          )}
+          {toast.action === 'redo' && history.redo.length > 0 && (
+            <button type="button" className="log__export" onClick={redo} title="Ctrl+Shift+Z">
+              Redo
+            </button>
+          )}
+          <button
+            type="button"
+            className="dashboard__toast-close"
+            aria-label="Tutup notifikasi"
+            onClick={() => setToast(null)}
+          >
+            ×
+          </button>
+        </div>
+      )}
     </section>
   );
 }
@@ -0,0 +1,130 @@
+'use client';
+
+import { useState } from 'react';
+import { EFFECT_MAX_HOURS, EFFECT_TYPE_COLUMNS, type EffectType } from '@/lib/effects';
+import { supabaseClient } from '@/lib/supabaseClient';
+
+type Props = {
+  userId: string;
+  effectTypes: EffectType[];
+};
+
+// durasi disimpan dalam jam, ditampilkan sebagai hari + jam
+function describeDuration(hours: number) {
+  const days = Math.floor(hours / 24);
+  const rest = hours % 24;
+  return [days > 0 && `${days} hari`, rest > 0 && `${rest} jam`].filter(Boolean).join(' ');
+}
+
+export function EffectTypesPanel({ userId, effectTypes }: Props) {
+  const [items, setItems] = useState<EffectType[]>(effectTypes);
+  const [label, setLabel] = useState('');
+  const [days, setDays] = useState('7');
+  const [hours, setHours] = useState('0');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const duration = Number(days) * 24 + Number(hours);
+  const valid =
+    label.trim().length > 0 && Number.isInteger(duration) && duration >= 1 && duration <= EFFECT_MAX_HOURS;
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Effect type update failed', err);
+      // 23505 = unique_violation (user_id, label)
+      if ((err as { code?: string }).code === '23505') setError('Nama efek sudah dipakai.');
+      else setError(err instanceof Error ? err.message : 'Gagal menyimpan efek.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const handleCreate = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!valid) return;
+
+    void run(async () => {
+      const { data, error: insertError } = await supabaseClient
+        .from('effect_types')
+        .insert({ user_id: userId, label: label.trim(), duration_hours: duration })
+        .select(EFFECT_TYPE_COLUMNS)
+        .single();
+      if (insertError) throw insertError;
+
+      setItems((prev) => [...prev, data as EffectType].sort((a, b) => a.label.localeCompare(b.label)));
+      setLabel('');
+    });
+  };
+
+  const handleDelete = (effectType: EffectType) => {
+    if (!window.confirm(`Hapus ${effectType.label}? Efek yang sedang aktif di karakter ikut dihapus.`)) return;
+
+    void run(async () => {
+      const { error: deleteError } = await supabaseClient.from('effect_types').delete().eq('id', effectType.id);
+      if (deleteError) throw deleteError;
+
+      setItems((prev) => prev.filter((item) => item.id !== effectType.id));
+    });
+  };
+
+  return (
+    <div className="settings__form settings__effects">
+      <h2 className="characters__subtitle">Efek Berwaktu</h2>
+      <p className="settings__hint">
+        Buff atau pass selain Golden Goose (EXP boost, premium pass, tiket event). Efek diaktifkan per karakter dari
+        board dan hilang sendiri di daily reset setelah expiry.
+      </p>
+
+      {items.length > 0 && (
+        <ul className="settings__effect-list">
+          {items.map((effectType) => (
+            <li key={effectType.id}>
+              <span>
+                <strong>{effectType.label}</strong> · {describeDuration(effectType.duration_hours)}
+              </span>
+              <button type="button" className="log__export" disabled={busy} onClick={() => handleDelete(effectType)}>
+                Hapus
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className="settings__effect-create" onSubmit={handleCreate}>
+        <input
+          className="characters__input"
+          placeholder="Nama efek, mis. EXP Boost 150%"
+          aria-label="Nama efek baru"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          disabled={busy}
+        />
+        <label className="log__date-picker">
+          <span>Hari</span>
+          <input type="number" min={0} step={1} value={days} onChange={(e) => setDays(e.target.value)} disabled={busy} />
+        </label>
+        <label className="log__date-picker">
+          <span>Jam</span>
+          <input
+            type="number"
+            min={0}
+            max={23}
+            step={1}
+            value={hours}
+            onChange={(e) => setHours(e.target.value)}
+            disabled={busy}
+          />
+        </label>
+        <button type="submit" className="dashboard__button" disabled={busy || !valid}>
+          Tambah
+        </button>
+      </form>
+
+      {error && <p className="log__error">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { fetchActivationHistory, type GoldenActivation } from '@/lib/golden';
+import type { HistoryFilters } from '@/lib/historyFilters';
+import type { ServerRegion } from '@/lib/regions';
+import { supabaseClient } from '@/lib/supabaseClient';
+
+type Character = { id: string; name: string };
+
+type Props = {
+  userId: string;
+  characters: Character[];
+  // batas rentang tanggal mengikuti game day region user
+  region: ServerRegion;
+  // filter karakter & rentang tanggal dari tabel; aktivasi yang bersinggungan dengan rentang ikut tampil
+  filters: HistoryFilters;
+};
+
+const STATUS_LABELS = {
+  active: 'Aktif',
+  expired: 'Expired',
+  cancelled: 'Dibatalkan',
+} as const;
+
+function formatTimestamp(value: string | null) {
+  return value ? format(parseISO(value), 'dd MMM yyyy HH:mm') : '--';
+}
+
+export function GoldenHistory({ userId, characters, region, filters }: Props) {
+  const [activations, setActivations] = useState<GoldenActivation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loadedAt, setLoadedAt] = useState(0);
+
+  const names = useMemo(() => new Map(characters.map((character) => [character.id, character.name])), [characters]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      setLoading(true);
+      setError(null);
+      try {
+        const loaded = await fetchActivationHistory(supabaseClient, userId, region, {
+          characterId: filters.characterId,
+          start: filters.start,
+          end: filters.end,
+        });
+        if (!cancelled) {
+          setActivations(loaded);
+          setLoadedAt(Date.now());
+        }
+      } catch (err) {
+        console.error('Failed to fetch golden_activations', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Gagal memuat riwayat Golden Goose.');
+          setActivations([]);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, region, filters.characterId, filters.start, filters.end]);
+
+  // per karakter, urut nama; di dalamnya terbaru dulu (urutan query)
+  const byCharacter = useMemo(() => {
+    const map = new Map<string, GoldenActivation[]>();
+    activations.forEach((activation) => {
+      map.set(activation.character_id, [...(map.get(activation.character_id) ?? []), activation]);
+    });
+    return [...map.entries()].sort((a, b) =>
+      (names.get(a[0]) ?? a[0]).localeCompare(names.get(b[0]) ?? b[0])
+    );
+  }, [activations, names]);
+
+  if (loading) return <p className="log__loading">Memuat data...</p>;
+
+  return (
+    <div className="log__golden">
+      {error && <p className="log__error">{error}</p>}
+      {byCharacter.length === 0 ? (
+        <p className="log__empty">Tidak ada aktivasi Golden Goose pada rentang ini.</p>
+      ) : (
+        byCharacter.map(([characterId, items]) => (
+          <section key={characterId} className="log__golden-character">
+            <h3>
+              {names.get(characterId) ?? characterId} · {items.length} aktivasi
+            </h3>
+            <div className="log__table-wrapper">
+              <table className="log__table">
+                <thead>
+                  <tr>
+                    <th>Mulai</th>
+                    <th>Durasi</th>
+                    <th>Expiry</th>
+                    <th>Status</th>
+                    <th>Berakhir</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map((activation) => {
+                    // sudah lewat expiry tapi belum ditutup daily reset -> tetap tampil expired
+                    const status =
+                      activation.end_reason ?? (Date.parse(activation.expires_at) <= loadedAt ? 'expired' : 'active');
+                    return (
+                      <tr key={activation.id}>
+                        <td>{formatTimestamp(activation.started_at)}</td>
+                        <td>{activation.duration_hours} jam</td>
+                        <td>{formatTimestamp(activation.expires_at)}</td>
+                        <td>
+                          <span className={`log__golden-status log__golden-status--${status}`}>
+                            {STATUS_LABELS[status]}
+                          </span>
+                        </td>
+                        <td>{formatTimestamp(activation.ended_at)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
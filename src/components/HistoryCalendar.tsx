@@ -0,0 +1,196 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { addMonths, eachDayOfInterval, endOfMonth, format, getDay, parseISO, startOfMonth } from 'date-fns';
+import { fetchHistoryPages, type HistoryRow } from '@/lib/historyExport';
+import type { HistoryFilters } from '@/lib/historyFilters';
+import { supabaseClient } from '@/lib/supabaseClient';
+import { optionLabel, type TaskDefinition, type TaskValue } from '@/lib/tasks';
+
+type Props = {
+  userId: string;
+  tasks: TaskDefinition[];
+  // filter karakter / status dari tabel ikut dipakai; rentang diganti bulan yang dipilih
+  filters: HistoryFilters;
+};
+
+const WEEKDAYS = ['Min', 'Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab'];
+
+// 0 = tidak ada snapshot, 1..4 = makin banyak task selesai
+function heatLevel(done: number, total: number) {
+  if (total === 0) return 1;
+  return 1 + Math.round((done / total) * 3);
+}
+
+function formatTimestamp(value: unknown) {
+  return value ? format(parseISO(String(value)), 'dd MMM yyyy HH:mm') : '--';
+}
+
+// bulan awal ikut rentang filter; tanpa rentang pakai bulan ini
+function initialMonth(filters: HistoryFilters) {
+  return startOfMonth(parseISO(filters.end ?? filters.start ?? format(new Date(), 'yyyy-MM-dd')));
+}
+
+export function HistoryCalendar({ userId, tasks, filters }: Props) {
+  const [month, setMonth] = useState(() => initialMonth(filters));
+  const [monthFilters, setMonthFilters] = useState(filters);
+  const [rows, setRows] = useState<HistoryRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<HistoryRow | null>(null);
+
+  // filter berubah -> lompat lagi ke bulan dari rentang filter
+  if (monthFilters !== filters) {
+    setMonthFilters(filters);
+    setMonth(initialMonth(filters));
+  }
+
+  const counted = useMemo(() => tasks.filter((task) => task.done_value !== null), [tasks]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      setLoading(true);
+      setError(null);
+      const monthFilters: HistoryFilters = {
+        ...filters,
+        start: format(month, 'yyyy-MM-dd'),
+        end: format(endOfMonth(month), 'yyyy-MM-dd'),
+      };
+
+      try {
+        const loaded: HistoryRow[] = [];
+        for await (const page of fetchHistoryPages(supabaseClient, userId, monthFilters, tasks)) {
+          loaded.push(...page);
+        }
+        if (!cancelled) setRows(loaded);
+      } catch (err) {
+        console.error('Failed to fetch history_log for calendar', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Gagal memuat kalender.');
+          setRows([]);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, tasks, filters, month]);
+
+  // per karakter: tanggal -> snapshot
+  const byCharacter = useMemo(() => {
+    const map = new Map<string, { name: string; days: Map<string, HistoryRow> }>();
+    rows.forEach((row) => {
+      const id = String(row.character_id);
+      const entry = map.get(id) ?? { name: String(row.character_name ?? id), days: new Map() };
+      entry.days.set(String(row.snapshot_date), row);
+      map.set(id, entry);
+    });
+    return [...map.entries()].sort((a, b) => a[1].name.localeCompare(b[1].name));
+  }, [rows]);
+
+  const days = eachDayOfInterval({ start: month, end: endOfMonth(month) });
+  // sel kosong sebelum tanggal 1 supaya kolom sesuai hari
+  const leading = getDay(month);
+
+  return (
+    <div className="log__calendar">
+      <div className="log__calendar-nav">
+        <button type="button" className="log__export" onClick={() => setMonth((m) => addMonths(m, -1))}>
+          ‹
+        </button>
+        <strong>{format(month, 'MMMM yyyy')}</strong>
+        <button type="button" className="log__export" onClick={() => setMonth((m) => addMonths(m, 1))}>
+          ›
+        </button>
+      </div>
+
+      {error && <p className="log__error">{error}</p>}
+      {loading ? (
+        <p className="log__loading">Memuat data...</p>
+      ) : byCharacter.length === 0 ? (
+        <p className="log__empty">Tidak ada data pada bulan ini.</p>
+      ) : (
+        <div className="log__calendar-grid">
+          {byCharacter.map(([characterId, character]) => (
+            <section key={characterId} className="log__month">
+              <h3>{character.name}</h3>
+              <div
+                className="log__month-days"
+                role="group"
+                aria-label={`${character.name} ${format(month, 'MMMM yyyy')}`}
+              >
+                {WEEKDAYS.map((day) => (
+                  <span key={day} className="log__weekday">
+                    {day}
+                  </span>
+                ))}
+                {Array.from({ length: leading }, (_, i) => (
+                  <span key={`blank-${i}`} />
+                ))}
+                {days.map((day) => {
+                  const key = format(day, 'yyyy-MM-dd');
+                  const row = character.days.get(key);
+                  const done = row ? counted.filter((task) => row[task.key] === task.done_value).length : 0;
+                  const level = row ? heatLevel(done, counted.length) : 0;
+                  const label = row ? `${key}: ${done}/${counted.length} selesai` : `${key}: tidak ada snapshot`;
+                  return (
+                    <button
+                      key={key}
+                      type="button"
+                      className={`log__day log__day--level-${level}`}
+                      title={label}
+                      aria-label={label}
+                      disabled={!row}
+                      onClick={() => row && setSelected(row)}
+                    >
+                      {format(day, 'd')}
+                    </button>
+                  );
+                })}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="log__snapshot">
+          <div className="log__snapshot-head">
+            <strong>
+              {String(selected.character_name)} · {String(selected.snapshot_date)}
+            </strong>
+            <button type="button" className="log__export" onClick={() => setSelected(null)}>
+              Tutup
+            </button>
+          </div>
+          <dl>
+            {tasks.map((task) => (
+              <div key={task.key}>
+                <dt>{task.label}</dt>
+                <dd>{optionLabel(task, (selected[task.key] ?? null) as TaskValue)}</dd>
+              </div>
+            ))}
+            <div>
+              <dt>Golden Goose</dt>
+              <dd>{selected.golden_active ? 'Active' : 'Inactive'}</dd>
+            </div>
+            <div>
+              <dt>Golden mulai</dt>
+              <dd>{formatTimestamp(selected.golden_started_at)}</dd>
+            </div>
+            <div>
+              <dt>Golden expired</dt>
+              <dd>{formatTimestamp(selected.golden_expired_at)}</dd>
+            </div>
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { fetchHistoryPages, type HistoryRow } from '@/lib/historyExport';
+import { historyQuery, type HistoryFilters } from '@/lib/historyFilters';
+import { supabaseClient } from '@/lib/supabaseClient';
+import { flattenTaskColumns, optionLabel, type TaskDefinition, type TaskValue } from '@/lib/tasks';
+
+type Character = { id: string; name: string };
+
+type Props = {
+  userId: string;
+  tasks: TaskDefinition[];
+  characters: Character[];
+  // rentang & karakter dari filter tabel jadi nilai awal
+  filters: HistoryFilters;
+};
+
+type FieldDiff = { field: string; label: string; before: string; after: string; changed: boolean };
+
+function formatTimestamp(value: unknown) {
+  return value ? format(parseISO(String(value)), 'dd MMM yyyy HH:mm') : '--';
+}
+
+// bandingkan dua snapshot per field (task katalog + Golden Goose), nilai sudah dalam bentuk label
+function diffSnapshots(before: HistoryRow | null, after: HistoryRow | null, tasks: TaskDefinition[]): FieldDiff[] {
+  const fields: FieldDiff[] = tasks.map((task) => ({
+    field: task.key,
+    label: task.label,
+    before: before ? optionLabel(task, (before[task.key] ?? null) as TaskValue) : '--',
+    after: after ? optionLabel(task, (after[task.key] ?? null) as TaskValue) : '--',
+    changed: false,
+  }));
+  fields.push(
+    {
+      field: 'golden_active',
+      label: 'Golden Goose',
+      before: before ? (before.golden_active ? 'Active' : 'Inactive') : '--',
+      after: after ? (after.golden_active ? 'Active' : 'Inactive') : '--',
+      changed: false,
+    },
+    {
+      field: 'golden_started_at',
+      label: 'Golden mulai',
+      before: formatTimestamp(before?.golden_started_at),
+      after: formatTimestamp(after?.golden_started_at),
+      changed: false,
+    },
+    {
+      field: 'golden_expired_at',
+      label: 'Golden expired',
+      before: formatTimestamp(before?.golden_expired_at),
+      after: formatTimestamp(after?.golden_expired_at),
+      changed: false,
+    }
+  );
+  return fields.map((f) => ({ ...f, changed: f.before !== f.after }));
+}
+
+export function HistoryDiff({ userId, tasks, characters, filters }: Props) {
+  const [characterId, setCharacterId] = useState(filters.characterId ?? characters[0]?.id ?? '');
+  // pair = dua tanggal bebas, consecutive = tiap hari vs snapshot sebelumnya di rentang filter
+  const [compare, setCompare] = useState<'pair' | 'consecutive'>('pair');
+  const [dateA, setDateA] = useState(filters.start ?? '');
+  const [dateB, setDateB] = useState(filters.end ?? '');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [snapshots, setSnapshots] = useState<HistoryRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // consecutive: rentang filter; pair: dua tanggal itu saja
+  const [rangeStart, rangeEnd] = compare === 'consecutive' ? [filters.start, filters.end] : [dateA, dateB];
+
+  useEffect(() => {
+    if (!characterId || (compare === 'pair' && (!rangeStart || !rangeEnd))) {
+      setSnapshots([]);
+      return;
+    }
+    let cancelled = false;
+
+    async function load() {
+      setLoading(true);
+      setError(null);
+      try {
+        const loaded: HistoryRow[] = [];
+        if (compare === 'pair') {
+          // cukup dua snapshot, bukan semua snapshot di antara kedua tanggal
+          const { data, error: queryError } = await historyQuery(supabaseClient, userId, {
+            characterId,
+            sort: 'snapshot_date',
+            dir: 'asc',
+          }).in('snapshot_date', [rangeStart, rangeEnd]);
+          if (queryError) throw queryError;
+          loaded.push(...((data ?? []) as HistoryRow[]).map((row) => flattenTaskColumns(row, tasks)));
+        } else {
+          const diffFilters: HistoryFilters = {
+            start: rangeStart,
+            end: rangeEnd,
+            characterId,
+            sort: 'snapshot_date',
+            dir: 'asc',
+          };
+          for await (const page of fetchHistoryPages(supabaseClient, userId, diffFilters, tasks)) {
+            loaded.push(...page);
+          }
+        }
+        if (!cancelled) setSnapshots(loaded);
+      } catch (err) {
+        console.error('Failed to fetch history_log for diff', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Gagal memuat snapshot.');
+          setSnapshots([]);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, tasks, characterId, compare, rangeStart, rangeEnd]);
+
+  const byDate = useMemo(() => new Map(snapshots.map((row) => [String(row.snapshot_date), row])), [snapshots]);
+
+  // consecutive: pasangan snapshot berurutan, cuma yang ada perubahannya
+  const steps = useMemo(
+    () =>
+      snapshots.slice(1).map((row, index) => {
+        const previous = snapshots[index];
+        return {
+          from: String(previous.snapshot_date),
+          to: String(row.snapshot_date),
+          gap: differenceInCalendarDays(parseISO(String(row.snapshot_date)), parseISO(String(previous.snapshot_date))),
+          changes: diffSnapshots(previous, row, tasks).filter((f) => f.changed),
+        };
+      }),
+    [snapshots, tasks]
+  );
+
+  const visibleSteps = steps.filter((step) => showUnchanged || step.changes.length > 0);
+
+  const pairDiff = compare === 'pair' ? diffSnapshots(byDate.get(dateA) ?? null, byDate.get(dateB) ?? null, tasks) : [];
+
+  return (
+    <div className="log__diff">
+      <div className="log__filters">
+        <select
+          className="log__format"
+          aria-label="Karakter untuk dibandingkan"
+          value={characterId}
+          onChange={(e) => setCharacterId(e.target.value)}
+        >
+          {characters.map((character) => (
+            <option key={character.id} value={character.id}>
+              {character.name}
+            </option>
+          ))}
+        </select>
+        <select
+          className="log__format"
+          aria-label="Cara membandingkan"
+          value={compare}
+          onChange={(e) => setCompare(e.target.value as typeof compare)}
+        >
+          <option value="pair">Dua tanggal</option>
+          <option value="consecutive">Hari berurutan (rentang filter)</option>
+        </select>
+        {compare === 'pair' ? (
+          <>
+            <label className="log__date-picker">
+              <span>Tanggal A</span>
+              <input type="date" value={dateA} onChange={(e) => setDateA(e.target.value)} />
+            </label>
+            <label className="log__date-picker">
+              <span>Tanggal B</span>
+              <input type="date" value={dateB} onChange={(e) => setDateB(e.target.value)} />
+            </label>
+          </>
+        ) : (
+          <label className="log__diff-toggle">
+            <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+            Tampilkan hari tanpa perubahan
+          </label>
+        )}
+      </div>
+
+      {error && <p className="log__error">{error}</p>}
+
+      {loading ? (
+        <p className="log__loading">Memuat data...</p>
+      ) : compare === 'pair' ? (
+        !byDate.has(dateA) && !byDate.has(dateB) ? (
+          <p className="log__empty">Tidak ada snapshot di kedua tanggal.</p>
+        ) : (
+          <div className="log__table-wrapper">
+            <table className="log__table">
+              <thead>
+                <tr>
+                  <th>Field</th>
+                  <th>{dateA}{!byDate.has(dateA) && ' (tidak ada)'}</th>
+                  <th>{dateB}{!byDate.has(dateB) && ' (tidak ada)'}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pairDiff.map((f) => (
+                  <tr key={f.field} className={f.changed ? 'log__diff-row--changed' : undefined}>
+                    <td>{f.label}</td>
+                    <td>{f.before}</td>
+                    <td>{f.after}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      ) : steps.length === 0 ? (
+        <p className="log__empty">Butuh minimal dua snapshot di rentang ini.</p>
+      ) : visibleSteps.length === 0 ? (
+        <p className="log__empty">Tidak ada perubahan di rentang ini.</p>
+      ) : (
+        <ol className="log__diff-steps">
+          {visibleSteps.map((step) => (
+            <li key={step.to}>
+              <strong>
+                {step.from} → {step.to}
+              </strong>
+              {step.gap > 1 && <span className="log__diff-gap"> (lompat {step.gap} hari)</span>}
+              {step.changes.length === 0 ? (
+                <span className="log__diff-none"> — tidak ada perubahan</span>
+              ) : (
+                <ul>
+                  {step.changes.map((f) => (
+                    <li key={f.field}>
+                      {f.label}: <del>{f.before}</del> → <mark>{f.after}</mark>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useState } from 'react';
+import type { HistoryRow } from '@/lib/historyExport';
+import type { ImportPlan, ImportRow } from '@/lib/historyImport';
+import { optionLabel, type TaskDefinition, type TaskValue } from '@/lib/tasks';
+
+type Props = {
+  tasks: TaskDefinition[];
+  onImported: () => void;
+};
+
+// daftar di pratinjau dipotong supaya file besar tidak bikin halaman berat
+const PREVIEW_LIMIT = 50;
+
+type ImportResult = { inserted: number; updated: number; unchanged: number; rejected: number };
+
+async function postImport(text: string, commit: boolean) {
+  const response = await fetch(`/api/import${commit ? '?commit=1' : ''}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/csv; charset=utf-8' },
+    body: text,
+  });
+  if (response.status === 401) throw new Error('Sesi habis, silakan login ulang.');
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body?.ok) throw new Error(body?.error ?? 'Import gagal.');
+  return body;
+}
+
+export function HistoryImport({ tasks, onImported }: Props) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  function reset() {
+    setFileName(null);
+    setText(null);
+    setPlan(null);
+  }
+
+  async function handleFile(file: File | undefined) {
+    reset();
+    setResult(null);
+    setError(null);
+    if (!file) return;
+
+    setBusy(true);
+    try {
+      const content = await file.text();
+      const body = await postImport(content, false);
+      setFileName(file.name);
+      setText(content);
+      setPlan(body.plan as ImportPlan);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal membaca file.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function confirmImport() {
+    if (!text) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const body = await postImport(text, true);
+      setResult(body as ImportResult);
+      reset();
+      onImported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import gagal.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const describe = (row: ImportRow) =>
+    tasks.map((task) => `${task.label}: ${optionLabel(task, row.tasks[task.key] ?? null)}`).join(' · ');
+
+  // field yang berbeda antara baris lama dan baris dari file
+  const describeChange = (row: ImportRow, before: HistoryRow) =>
+    [
+      ...tasks
+        .filter((task) => task.key in row.tasks && (before[task.key] ?? null) !== row.tasks[task.key])
+        .map(
+          (task) =>
+            `${task.label}: ${optionLabel(task, (before[task.key] ?? null) as TaskValue)} → ${optionLabel(task, row.tasks[task.key] ?? null)}`
+        ),
+      ...(Boolean(before.golden_active) !== row.golden_active
+        ? [`Golden Goose: ${before.golden_active ? 'Active' : 'Inactive'} → ${row.golden_active ? 'Active' : 'Inactive'}`]
+        : []),
+    ].join(' · ') || 'Waktu Golden Goose';
+
+  const writes = plan ? plan.inserted.length + plan.updated.length : 0;
+
+  return (
+    <section className="log__import">
+      <h2 className="log__import-title">Import CSV</h2>
+      <p className="log__import-hint">
+        Format sama dengan hasil Export CSV. Karakter dicocokkan lewat character_id atau nama; sel task yang kosong
+        tidak mengubah nilai yang sudah ada. Tidak ada yang disimpan sebelum kamu konfirmasi.
+      </p>
+
+      <input
+        type="file"
+        accept=".csv,text/csv"
+        aria-label="File CSV untuk import"
+        disabled={busy}
+        onChange={(e) => {
+          void handleFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+
+      {busy && <p className="log__loading">Memproses...</p>}
+      {error && <p className="log__error">{error}</p>}
+      {result && (
+        <p className="log__import-result">
+          Import selesai: {result.inserted} baru, {result.updated} diubah, {result.unchanged} sama, {result.rejected}{' '}
+          ditolak.
+        </p>
+      )}
+
+      {plan && (
+        <div className="log__import-plan">
+          <p className="log__import-summary">
+            <strong>{fileName}</strong>: {plan.inserted.length} baru, {plan.updated.length} diubah, {plan.unchanged} sama,{' '}
+            {plan.rejected.length} ditolak.
+          </p>
+
+          {plan.rejected.length > 0 && (
+            <details open>
+              <summary>Ditolak ({plan.rejected.length})</summary>
+              <ul className="log__import-list">
+                {plan.rejected.slice(0, PREVIEW_LIMIT).map((rejection) => (
+                  <li key={rejection.line}>
+                    Baris {rejection.line}: {rejection.errors.join('; ')}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+          {plan.updated.length > 0 && (
+            <details>
+              <summary>Diubah ({plan.updated.length})</summary>
+              <ul className="log__import-list">
+                {plan.updated.slice(0, PREVIEW_LIMIT).map(({ row, before }) => (
+                  <li key={`${row.character_id}|${row.snapshot_date}`}>
+                    {row.snapshot_date} {row.character_name} — {describeChange(row, before)}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+          {plan.inserted.length > 0 && (
+            <details>
+              <summary>Baru ({plan.inserted.length})</summary>
+              <ul className="log__import-list">
+                {plan.inserted.slice(0, PREVIEW_LIMIT).map((row) => (
+                  <li key={`${row.character_id}|${row.snapshot_date}`}>
+                    {row.snapshot_date} {row.character_name} — {describe(row)}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          <div className="log__controls">
+            <button type="button" className="log__export" disabled={busy || writes === 0} onClick={confirmImport}>
+              Import {writes} baris
+            </button>
+            <button type="button" className="log__export" disabled={busy} onClick={reset}>
+              Batal
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,36 +1,55 @@
 'use client';
 
 import { useEffect, useMemo, useState } from 'react';
-import { endOfDay, format, isValid, parseISO, startOfDay, subDays } from 'date-fns';
+import { format, isValid, parseISO } from 'date-fns';
+import { HistoryCalendar } from '@/components/HistoryCalendar';
+import { GoldenHistory } from '@/components/GoldenHistory';
+import { HistoryDiff } from '@/components/HistoryDiff';
+import { StateTimeline } from '@/components/StateTimeline';
+import { HistoryImport } from '@/components/HistoryImport';
+import { EXPORT_FORMATS, exportFilename, type ExportFormat, type ExportMode } from '@/lib/historyExport';
+import {
+  DEFAULT_DIR,
+  DEFAULT_SORT,
+  historyFilterParams,
+  historyQuery,
+  SORTABLE_COLUMNS,
+  type HistoryFilters,
+} from '@/lib/historyFilters';
+import { summaryColumns, summaryLabels } from '@/lib/historySummary';
+import type { ServerRegion } from '@/lib/regions';
 import { supabaseClient } from '@/lib/supabaseClient';
+import { flattenTaskColumns, type TaskDefinition } from '@/lib/tasks';
 
-type HistoryRow = Record<string, any>;
-
-// urutan kolom yang diutamakan (pakai snapshot_date, bukan created_at)
-const PREFERRED_ORDER = [
-  'snapshot_date',
-  'character_name',
-  'character_id',
-  'action',
-  'details',
-  'notes',
-  'daily_status',
-  'wtp',
-  'sdn_outskirts',
-  'sdn_core',
-  'golden_active',
-  'golden_started_at',
-  'golden_expired_at',
-];
-
-const DEV_USER_ID = '6c790f9e-04a2-4a35-9c4f-bb7c5f505fa4'; // ganti nanti ke auth.uid()
-
-function orderColumns(rows: HistoryRow[]): string[] {
+type HistoryRow = Record<string, unknown>;
+
+// urutan kolom yang diutamakan (pakai snapshot_date, bukan created_at);
+// kolom task disisipkan di tengah sesuai urutan katalog
+const LEADING_COLUMNS = ['snapshot_date', 'character_name', 'character_id', 'action', 'details', 'notes'];
+const TRAILING_COLUMNS = ['golden_active', 'golden_started_at', 'golden_expired_at'];
+
+// baris per halaman tabel; export tetap mengambil semua baris yang lolos filter
+const PAGE_SIZE = 50;
+
+type Character = { id: string; name: string };
+
+type Props = {
+  userId: string;
+  tasks: TaskDefinition[];
+  characters: Character[];
+  region: ServerRegion;
+  // filter awal dari query string /log (sudah diisi rentang default kalau kosong)
+  initialFilters: HistoryFilters;
+  initialPage: number;
+};
+
+function orderColumns(rows: HistoryRow[], tasks: TaskDefinition[]): string[] {
+  const preferred = [...LEADING_COLUMNS, ...tasks.map((t) => t.key), ...TRAILING_COLUMNS];
   const seen = new Set<string>();
   rows.forEach((row) => Object.keys(row).forEach((k) => !seen.has(k) && seen.add(k)));
   const dynamic = Array.from(seen).sort((a, b) => {
-    const ia = PREFERRED_ORDER.indexOf(a);
-    const ib = PREFERRED_ORDER.indexOf(b);
+    const ia = preferred.indexOf(a);
+    const ib = preferred.indexOf(b);
     if (ia === -1 && ib === -1) return a.localeCompare(b);
     if (ia === -1) return 1;
     if (ib === -1) return -1;
@@ -39,15 +58,11 @@ function orderColumns(rows: HistoryRow[]): string[] {
   return dynamic;
 }
 
-function normaliseDateInput(value: string): Date | null {
-  if (!value) return null;
-  const parsed = parseISO(value);
-  return isValid(parsed) ? parsed : null;
-}
-
 function formatCellValue(column: string, value: unknown): string {
   if (value === null || value === undefined) return '--';
   if (value instanceof Date) return format(value, 'dd MMM yyyy HH:mm');
+  // rate ringkasan 0..1 -> persen
+  if (column.endsWith('_rate') && typeof value === 'number') return `${(value * 100).toFixed(1)}%`;
 
   // kolom *_at → waktu; snapshot_date → tanggal
   if (typeof value === 'string') {
@@ -63,14 +78,55 @@ function formatCellValue(column: string, value: unknown): string {
   return String(value);
 }
 
-export function HistoryLogViewer() {
+// tulis filter ke URL tanpa memicu render ulang server component
+function syncUrl(filters: HistoryFilters, page: number) {
+  const params = historyFilterParams(filters);
+  if (page > 1) params.set('page', String(page));
+  const query = params.toString();
+  window.history.replaceState(null, '', query ? `/log?${query}` : '/log');
+}
+
+export function HistoryLogViewer({ userId, tasks, characters, region, initialFilters, initialPage }: Props) {
   const supabase = supabaseClient;
   const [rows, setRows] = useState<HistoryRow[]>([]);
-  const [startDate, setStartDate] = useState(() => format(subDays(new Date(), 7), 'yyyy-MM-dd'));
-  const [endDate, setEndDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [total, setTotal] = useState(0);
+  const [filters, setFilters] = useState<HistoryFilters>(initialFilters);
+  const [page, setPage] = useState(initialPage);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [exporting, setExporting] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  // summary = pratinjau ringkasan per karakter, calendar = heatmap per bulan,
+  // diff = bandingkan snapshot satu karakter antar tanggal, timeline = audit trail state_events,
+  // golden = riwayat aktivasi Golden Goose; export ikut ringkasan kalau itu yang sedang dilihat,
+  // selain itu baris snapshot
+  const [view, setView] = useState<'rows' | 'summary' | 'calendar' | 'diff' | 'timeline' | 'golden'>('rows');
+  const mode: ExportMode = view === 'summary' ? 'summary' : 'rows';
+  const [summaryRows, setSummaryRows] = useState<HistoryRow[]>([]);
+  const [summaryLoading, setSummaryLoading] = useState(false);
+  // dinaikkan setelah import supaya tabel dimuat ulang
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const invalidRange = Boolean(filters.start && filters.end && filters.start > filters.end);
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  function updateFilters(patch: Partial<HistoryFilters>) {
+    const next = { ...filters, ...patch };
+    setFilters(next);
+    setPage(1);
+    syncUrl(next, 1);
+  }
+
+  function goToPage(nextPage: number) {
+    setPage(nextPage);
+    syncUrl(filters, nextPage);
+  }
+
+  function toggleSort(column: string) {
+    const current = filters.sort ?? DEFAULT_SORT;
+    const dir = current === column ? ((filters.dir ?? DEFAULT_DIR) === 'asc' ? 'desc' : 'asc') : 'asc';
+    updateFilters({ sort: column, dir });
+  }
 
   useEffect(() => {
     let cancelled = false;
@@ -79,26 +135,19 @@ export function HistoryLogViewer() {
       setLoading(true);
       setError(null);
 
-      const start = normaliseDateInput(startDate);
-      const end = normaliseDateInput(endDate);
-      if (start && end && start > end) {
+      if (invalidRange) {
         setError('Rentang tanggal tidak valid.');
         setRows([]);
+        setTotal(0);
         setLoading(false);
         return;
       }
 
-      // pakai snapshot_date + filter user_id
-      let query = supabase
-        .from('history_log')
-        .select('*')
-        .eq('user_id', DEV_USER_ID)
-        .order('snapshot_date', { ascending: false });
-
-      if (start) query = query.gte('snapshot_date', startOfDay(start).toISOString().slice(0, 10));
-      if (end)   query = query.lte('snapshot_date', endOfDay(end).toISOString().slice(0, 10));
-
-      const { data, error: fetchError } = await query;
+      // filter, urutan & halaman dikerjakan di database; cuma satu halaman yang dikirim
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, error: fetchError, count } = await historyQuery(supabase, userId, filters, {
+        count: 'exact',
+      }).range(from, from + PAGE_SIZE - 1);
 
       if (cancelled) return;
 
@@ -106,8 +155,10 @@ export function HistoryLogViewer() {
         console.error('Failed to fetch history_log', fetchError);
         setError(fetchError.message);
         setRows([]);
+        setTotal(0);
       } else {
-        setRows((data ?? []) as HistoryRow[]);
+        setRows(((data ?? []) as HistoryRow[]).map((row) => flattenTaskColumns(row, tasks)));
+        setTotal(count ?? 0);
       }
       setLoading(false);
     }
@@ -116,40 +167,91 @@ export function HistoryLogViewer() {
     return () => {
       cancelled = true;
     };
-  }, [startDate, endDate]);
+  }, [supabase, userId, tasks, filters, page, invalidRange, reloadKey]);
 
-  const columns = useMemo(() => orderColumns(rows), [rows]);
+  // ringkasan dihitung server (sama persis dengan file export mode=summary)
+  useEffect(() => {
+    if (mode !== 'summary') return;
+    let cancelled = false;
+
+    async function loadSummary() {
+      if (invalidRange) {
+        setSummaryRows([]);
+        return;
+      }
+
+      setSummaryLoading(true);
+      setError(null);
+      const params = historyFilterParams(filters);
+      params.set('mode', 'summary');
+      params.set('format', 'json');
+
+      try {
+        const response = await fetch(`/api/export?${params.toString()}`);
+        if (response.status === 401) throw new Error('Sesi habis, silakan login ulang.');
+        if (!response.ok) throw new Error('Gagal memuat ringkasan.');
+        const data = (await response.json()) as HistoryRow[];
+        if (!cancelled) setSummaryRows(data);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Gagal memuat ringkasan.');
+        setSummaryRows([]);
+      } finally {
+        if (!cancelled) setSummaryLoading(false);
+      }
+    }
+
+    void loadSummary();
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, filters, invalidRange, reloadKey]);
+
+  const rowColumns = useMemo(() => orderColumns(rows, tasks), [rows, tasks]);
+  const rowLabels = useMemo(
+    () => Object.fromEntries(tasks.map((t) => [t.key, t.label])) as Record<string, string>,
+    [tasks]
+  );
+  const summaryHeaders = useMemo(() => summaryLabels(tasks), [tasks]);
+  const sortable = useMemo(() => new Set([...SORTABLE_COLUMNS, ...tasks.map((t) => t.key)]), [tasks]);
+
+  const isSummary = mode === 'summary';
+  const tableRows = isSummary ? summaryRows : rows;
+  const columns = isSummary ? summaryColumns(tasks) : rowColumns;
+  const columnLabels = isSummary ? summaryHeaders : rowLabels;
+  const tableLoading = isSummary ? summaryLoading : loading;
+  const filterTask = tasks.find((t) => t.key === filters.task);
+  const sortKey = filters.sort ?? DEFAULT_SORT;
+  const sortDir = filters.dir ?? DEFAULT_DIR;
 
   const handleExport = async () => {
     try {
       setExporting(true);
       setError(null);
 
-      const start = normaliseDateInput(startDate);
-      const end = normaliseDateInput(endDate);
-      if (start && end && start > end) {
+      if (invalidRange) {
         setError('Rentang tanggal tidak valid.');
         return;
       }
 
-      const params = new URLSearchParams();
-      if (startDate) params.set('start', startDate);
-      if (endDate) params.set('end', endDate);
-      // sertakan user_id agar export server-side memfilter juga
-      params.set('user_id', DEV_USER_ID);
+      // filter yang sama dengan tabel
+      const params = historyFilterParams(filters);
+      params.set('format', exportFormat);
+      params.set('mode', mode);
 
       const response = await fetch(`/api/export?${params.toString()}`);
-      if (!response.ok) throw new Error('Gagal membuat CSV.');
+      if (response.status === 401) throw new Error('Sesi habis, silakan login ulang.');
+      if (!response.ok) throw new Error('Gagal membuat file export.');
 
       const blob = await response.blob();
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `history-log-${startDate || 'all'}_${endDate || 'all'}.csv`;
+      link.download = exportFilename(filters, exportFormat, mode);
       link.click();
       URL.revokeObjectURL(url);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Gagal mengunduh CSV.');
+      setError(err instanceof Error ? err.message : 'Gagal mengunduh file export.');
     } finally {
       setExporting(false);
     }
@@ -165,46 +267,164 @@ export function HistoryLogViewer() {
         <div className="log__controls">
           <label className="log__date-picker">
             <span>Dari</span>
-            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            <input
+              type="date"
+              value={filters.start ?? ''}
+              onChange={(e) => updateFilters({ start: e.target.value || undefined })}
+            />
           </label>
           <label className="log__date-picker">
             <span>Sampai</span>
-            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            <input
+              type="date"
+              value={filters.end ?? ''}
+              onChange={(e) => updateFilters({ end: e.target.value || undefined })}
+            />
           </label>
+          <select
+            className="log__format"
+            aria-label="Tampilan"
+            value={view}
+            onChange={(e) => setView(e.target.value as typeof view)}
+          >
+            <option value="rows">Snapshot harian</option>
+            <option value="summary">Ringkasan per karakter</option>
+            <option value="calendar">Kalender</option>
+            <option value="diff">Perbandingan</option>
+            <option value="timeline">Timeline perubahan</option>
+            <option value="golden">Golden Goose</option>
+          </select>
+          <select
+            className="log__format"
+            aria-label="Format export"
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+          >
+            {EXPORT_FORMATS.map((f) => (
+              <option key={f.key} value={f.key}>
+                {f.label}
+              </option>
+            ))}
+          </select>
           <button className="log__export" onClick={handleExport} disabled={exporting}>
-            {exporting ? 'Exporting...' : 'Export CSV'}
+            {exporting ? 'Exporting...' : `Export ${EXPORT_FORMATS.find((f) => f.key === exportFormat)?.label ?? ''}`}
           </button>
         </div>
       </header>
 
+      <div className="log__filters">
+        <select
+          className="log__format"
+          aria-label="Filter karakter"
+          value={filters.characterId ?? ''}
+          onChange={(e) => updateFilters({ characterId: e.target.value || undefined })}
+        >
+          <option value="">Semua karakter</option>
+          {characters.map((character) => (
+            <option key={character.id} value={character.id}>
+              {character.name}
+            </option>
+          ))}
+        </select>
+        <select
+          className="log__format"
+          aria-label="Filter task"
+          value={filters.task ?? ''}
+          onChange={(e) => updateFilters({ task: e.target.value || undefined, status: undefined })}
+        >
+          <option value="">Semua task</option>
+          {tasks.map((task) => (
+            <option key={task.key} value={task.key}>
+              {task.label}
+            </option>
+          ))}
+        </select>
+        {/* status dibandingkan sebagai teks (tasks->>key), jadi value option ikut String() */}
+        <select
+          className="log__format"
+          aria-label="Filter status"
+          value={filters.status ?? ''}
+          disabled={!filterTask}
+          onChange={(e) => updateFilters({ status: e.target.value || undefined })}
+        >
+          <option value="">Semua status</option>
+          {filterTask?.options.map((option) => (
+            <option key={String(option.value)} value={String(option.value)}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
       {error && <p className="log__error">{error}</p>}
 
-      <div className="log__table-wrapper">
-        {loading ? (
-          <p className="log__loading">Memuat data...</p>
-        ) : rows.length === 0 ? (
-          <p className="log__empty">Tidak ada data pada rentang ini.</p>
-        ) : (
-          <table className="log__table">
-            <thead>
-              <tr>
-                {columns.map((c) => (
-                  <th key={c}>{c.replace(/_/g, ' ')}</th>
-                ))}
-              </tr>
-            </thead>
-            <tbody>
-              {rows.map((row, i) => (
-                <tr key={i}>
-                  {columns.map((c) => (
-                    <td key={c}>{formatCellValue(c, row[c])}</td>
-                  ))}
+      {view === 'calendar' ? (
+        <HistoryCalendar userId={userId} tasks={tasks} filters={filters} />
+      ) : view === 'diff' ? (
+        <HistoryDiff userId={userId} tasks={tasks} characters={characters} filters={filters} />
+      ) : view === 'timeline' ? (
+        <StateTimeline userId={userId} tasks={tasks} characters={characters} filters={filters} />
+      ) : view === 'golden' ? (
+        <GoldenHistory userId={userId} characters={characters} region={region} filters={filters} />
+      ) : (
+        <div className="log__table-wrapper">
+          {tableLoading ? (
+            <p className="log__loading">Memuat data...</p>
+          ) : tableRows.length === 0 ? (
+            <p className="log__empty">Tidak ada data pada rentang ini.</p>
+          ) : (
+            <table className="log__table">
+              <thead>
+                <tr>
+                  {columns.map((c) => {
+                    const label = columnLabels[c] ?? c.replace(/_/g, ' ');
+                    if (isSummary || !sortable.has(c)) return <th key={c}>{label}</th>;
+                    const active = sortKey === c;
+                    return (
+                      <th key={c} aria-sort={active ? (sortDir === 'asc' ? 'ascending' : 'descending') : 'none'}>
+                        <button type="button" className="log__sort" onClick={() => toggleSort(c)}>
+                          {label}
+                          {active && <span aria-hidden="true">{sortDir === 'asc' ? ' ▲' : ' ▼'}</span>}
+                        </button>
+                      </th>
+                    );
+                  })}
                 </tr>
-              ))}
-            </tbody>
-          </table>
-        )}
-      </div>
+              </thead>
+              <tbody>
+                {tableRows.map((row) => (
+                  <tr key={`${row.character_id}|${row.snapshot_date ?? ''}`}>
+                    {columns.map((c) => (
+                      <td key={c}>{formatCellValue(c, row[c])}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {view === 'rows' && total > 0 && (
+        <nav className="log__pagination" aria-label="Halaman history">
+          <button type="button" className="log__export" disabled={page <= 1} onClick={() => goToPage(page - 1)}>
+            Sebelumnya
+          </button>
+          <span>
+            Halaman {page} dari {pageCount} · {total} baris
+          </span>
+          <button
+            type="button"
+            className="log__export"
+            disabled={page >= pageCount}
+            onClick={() => goToPage(page + 1)}
+          >
+            Berikutnya
+          </button>
+        </nav>
+      )}
+
+      <HistoryImport tasks={tasks} onImported={() => setReloadKey((key) => key + 1)} />
     </section>
   );
 }
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabaseClient } from '@/lib/supabaseClient';
+
+type Props = {
+  next: string;
+  initialError: string | null;
+};
+
+type Mode = 'password' | 'magic_link';
+
+export function LoginForm({ next, initialError }: Props) {
+  const router = useRouter();
+  const [mode, setMode] = useState<Mode>('password');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(initialError);
+  const [info, setInfo] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    setInfo(null);
+
+    try {
+      if (mode === 'password') {
+        const { error: signInError } = await supabaseClient.auth.signInWithPassword({ email, password });
+        if (signInError) throw signInError;
+
+        router.replace(next);
+        router.refresh();
+        return;
+      }
+
+      const callbackUrl = new URL('/auth/callback', window.location.origin);
+      callbackUrl.searchParams.set('next', next);
+
+      const { error: otpError } = await supabaseClient.auth.signInWithOtp({
+        email,
+        options: { emailRedirectTo: callbackUrl.toString() },
+      });
+      if (otpError) throw otpError;
+
+      setInfo('Link login sudah dikirim. Cek email kamu.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal login.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="login">
+      <header className="login__header">
+        <h1>DoomDye</h1>
+        <p>Masuk untuk melihat progres karaktermu.</p>
+      </header>
+
+      <div className="login__tabs" role="tablist">
+        <button
+          type="button"
+          role="tab"
+          aria-selected={mode === 'password'}
+          className={`login__tab${mode === 'password' ? ' login__tab--active' : ''}`}
+          onClick={() => setMode('password')}
+        >
+          Password
+        </button>
+        <button
+          type="button"
+          role="tab"
+          aria-selected={mode === 'magic_link'}
+          className={`login__tab${mode === 'magic_link' ? ' login__tab--active' : ''}`}
+          onClick={() => setMode('magic_link')}
+        >
+          Magic Link
+        </button>
+      </div>
+
+      <form className="login__form" onSubmit={handleSubmit}>
+        <label className="login__field">
+          <span>Email</span>
+          <input
+            type="email"
+            autoComplete="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+        </label>
+
+        {mode === 'password' && (
+          <label className="login__field">
+            <span>Password</span>
+            <input
+              type="password"
+              autoComplete="current-password"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </label>
+        )}
+
+        {error && <p className="login__error">{error}</p>}
+        {info && <p className="login__info">{info}</p>}
+
+        <button type="submit" className="dashboard__button" disabled={submitting}>
+          {submitting ? 'Memproses...' : mode === 'password' ? 'Masuk' : 'Kirim Link'}
+        </button>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { BackupPanel } from '@/components/BackupPanel';
+import { EffectTypesPanel } from '@/components/EffectTypesPanel';
+import type { EffectType } from '@/lib/effects';
+import { GOLDEN_MAX_HOURS } from '@/lib/golden';
+import { supabaseClient } from '@/lib/supabaseClient';
+import { gameDay, type ServerRegion } from '@/lib/regions';
+
+type Props = {
+  userId: string;
+  regions: ServerRegion[];
+  currentRegion: string;
+  currentGoldenHours: number;
+  effectTypes: EffectType[];
+};
+
+const WEEKDAYS = ['Minggu', 'Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu'];
+
+function describeSchedule(region: ServerRegion) {
+  const hour = String(region.reset_hour).padStart(2, '0');
+  return `Daily reset ${hour}:00, weekly tiap ${WEEKDAYS[region.weekly_reset_day]} (${region.time_zone})`;
+}
+
+export function SettingsForm({ userId, regions, currentRegion, currentGoldenHours, effectTypes }: Props) {
+  const router = useRouter();
+  const [regionKey, setRegionKey] = useState(currentRegion);
+  const [goldenHours, setGoldenHours] = useState(String(currentGoldenHours));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const selected = regions.find((r) => r.key === regionKey);
+  const goldenValue = Number(goldenHours);
+  const goldenValid = Number.isInteger(goldenValue) && goldenValue >= 1 && goldenValue <= GOLDEN_MAX_HOURS;
+  const unchanged = regionKey === currentRegion && goldenValue === currentGoldenHours;
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    setSaved(false);
+
+    try {
+      const { error: upsertError } = await supabaseClient
+        .from('user_settings')
+        .upsert({
+          user_id: userId,
+          region: regionKey,
+          golden_duration_hours: goldenValue,
+          updated_at: new Date().toISOString(),
+        });
+      if (upsertError) throw upsertError;
+
+      setSaved(true);
+      router.refresh();
+    } catch (err) {
+      console.error('Failed to save user_settings', err);
+      setError(err instanceof Error ? err.message : 'Gagal menyimpan pengaturan.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="dashboard settings">
+      <header className="dashboard__header">
+        <div>
+          <h1>Pengaturan</h1>
+          <p>Region server menentukan jam reset dan tanggal &quot;game day&quot; di board & history.</p>
+        </div>
+        <div className="dashboard__actions">
+          <Link href="/" className="dashboard__button">Kembali ke Board</Link>
+        </div>
+      </header>
+
+      <form className="settings__form" onSubmit={handleSubmit}>
+        <label className="log__date-picker">
+          <span>Region Server</span>
+          <select
+            className="dashboard__select"
+            value={regionKey}
+            onChange={(e) => {
+              setRegionKey(e.target.value);
+              setSaved(false);
+            }}
+            disabled={saving}
+          >
+            {regions.map((region) => (
+              <option key={region.key} value={region.key}>
+                {region.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {selected && (
+          <p className="settings__hint">
+            {describeSchedule(selected)}. Game day sekarang: {gameDay(selected)}.
+          </p>
+        )}
+
+        <label className="log__date-picker">
+          <span>Durasi Golden Goose (jam)</span>
+          <input
+            type="number"
+            min={1}
+            max={GOLDEN_MAX_HOURS}
+            step={1}
+            value={goldenHours}
+            onChange={(e) => {
+              setGoldenHours(e.target.value);
+              setSaved(false);
+            }}
+            disabled={saving}
+          />
+        </label>
+        <p className="settings__hint">
+          Berlaku untuk aktivasi berikutnya; Golden Goose yang sedang jalan tetap memakai durasi saat diaktifkan.
+        </p>
+
+        {error && <p className="log__error">{error}</p>}
+        {saved && <p className="login__info">Pengaturan tersimpan.</p>}
+
+        <div>
+          <button type="submit" className="dashboard__button" disabled={saving || unchanged || !goldenValid}>
+            {saving ? 'Menyimpan...' : 'Simpan'}
+          </button>
+        </div>
+      </form>
+
+      <EffectTypesPanel userId={userId} effectTypes={effectTypes} />
+      <BackupPanel />
+    </section>
+  );
+}
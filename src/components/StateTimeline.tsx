@@ -0,0 +1,171 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import type { HistoryFilters } from '@/lib/historyFilters';
+import { fetchStateEvents, STATE_EVENTS_PAGE_SIZE, type StateEvent } from '@/lib/stateEvents';
+import { supabaseClient } from '@/lib/supabaseClient';
+import { optionLabel, type TaskDefinition, type TaskValue } from '@/lib/tasks';
+
+type Character = { id: string; name: string };
+
+type Props = {
+  userId: string;
+  tasks: TaskDefinition[];
+  characters: Character[];
+  // rentang tanggal filter dipakai untuk state_date, karakter jadi pilihan awal
+  filters: HistoryFilters;
+};
+
+const GOLDEN_LABELS: Record<string, string> = {
+  golden_active: 'Golden Goose',
+  golden_started_at: 'Golden mulai',
+};
+
+export function StateTimeline({ userId, tasks, characters, filters }: Props) {
+  const [characterId, setCharacterId] = useState(filters.characterId ?? characters[0]?.id ?? '');
+  const [events, setEvents] = useState<StateEvent[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const taskByKey = useMemo(() => new Map(tasks.map((task) => [task.key, task])), [tasks]);
+
+  useEffect(() => {
+    if (!characterId) {
+      setEvents([]);
+      return;
+    }
+    let cancelled = false;
+
+    async function load() {
+      setLoading(true);
+      setError(null);
+      try {
+        const loaded = await fetchStateEvents(supabaseClient, characterId, { start: filters.start, end: filters.end });
+        if (!cancelled) {
+          setEvents(loaded);
+          setHasMore(loaded.length === STATE_EVENTS_PAGE_SIZE);
+        }
+      } catch (err) {
+        console.error('Failed to fetch state_events', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Gagal memuat timeline.');
+          setEvents([]);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [characterId, filters.start, filters.end]);
+
+  async function loadMore() {
+    const last = events[events.length - 1];
+    if (!last) return;
+    setLoading(true);
+    try {
+      const loaded = await fetchStateEvents(supabaseClient, characterId, {
+        start: filters.start,
+        end: filters.end,
+        before: last.id,
+      });
+      setEvents((current) => [...current, ...loaded]);
+      setHasMore(loaded.length === STATE_EVENTS_PAGE_SIZE);
+    } catch (err) {
+      console.error('Failed to fetch state_events', err);
+      setError(err instanceof Error ? err.message : 'Gagal memuat timeline.');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function fieldLabel(field: string) {
+    return taskByKey.get(field)?.label ?? GOLDEN_LABELS[field] ?? field;
+  }
+
+  function valueLabel(field: string, value: TaskValue) {
+    const task = taskByKey.get(field);
+    if (task) return optionLabel(task, value);
+    if (value === null) return '--';
+    if (field === 'golden_active') return value ? 'Active' : 'Inactive';
+    if (field === 'golden_started_at') return format(parseISO(String(value)), 'dd MMM yyyy HH:mm');
+    return String(value);
+  }
+
+  function actorLabel(event: StateEvent) {
+    if (event.actor === null) return 'Reset otomatis';
+    return event.actor === userId ? 'Kamu' : 'User lain';
+  }
+
+  // kelompokkan per tanggal lokal event tercatat, urutan terbaru dulu tetap
+  const groups = useMemo(() => {
+    const byDay = new Map<string, StateEvent[]>();
+    events.forEach((event) => {
+      const day = format(parseISO(event.created_at), 'dd MMM yyyy');
+      byDay.set(day, [...(byDay.get(day) ?? []), event]);
+    });
+    return [...byDay.entries()];
+  }, [events]);
+
+  return (
+    <div className="log__timeline">
+      <div className="log__filters">
+        <select
+          className="log__format"
+          aria-label="Karakter untuk timeline"
+          value={characterId}
+          onChange={(e) => setCharacterId(e.target.value)}
+        >
+          {characters.map((character) => (
+            <option key={character.id} value={character.id}>
+              {character.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="log__error">{error}</p>}
+
+      {events.length === 0 ? (
+        loading ? (
+          <p className="log__loading">Memuat data...</p>
+        ) : (
+          <p className="log__empty">Belum ada perubahan tercatat pada rentang ini.</p>
+        )
+      ) : (
+        <>
+          {groups.map(([day, dayEvents]) => (
+            <section key={day} className="log__timeline-day">
+              <h3>{day}</h3>
+              <ol>
+                {dayEvents.map((event) => (
+                  <li key={event.id} className="log__timeline-event">
+                    <time dateTime={event.created_at}>{format(parseISO(event.created_at), 'HH:mm:ss')}</time>
+                    <span>
+                      <strong>{fieldLabel(event.field)}</strong>: <del>{valueLabel(event.field, event.old_value)}</del>{' '}
+                      → <mark>{valueLabel(event.field, event.new_value)}</mark>
+                    </span>
+                    <span className="log__timeline-meta">
+                      {actorLabel(event)}
+                      {event.device && ` · ${event.device}`} · board {event.state_date}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          ))}
+          {hasMore && (
+            <button type="button" className="log__export" disabled={loading} onClick={loadMore}>
+              {loading ? 'Memuat...' : 'Muat lebih banyak'}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { format } from 'date-fns';
+import type { CharacterEffect, EffectType } from '@/lib/effects';
+import { formatRemaining, isExpiringSoon } from '@/lib/golden';
+
+type Props = {
+  name: string;
+  effects: CharacterEffect[];
+  effectTypes: EffectType[];
+  now: Date;
+  busy: boolean;
+  onActivate: (effectTypeId: number) => void;
+  onRemove: (effect: CharacterEffect) => void;
+};
+
+// sel "Efek" di board: countdown tiap efek aktif + pilihan untuk mengaktifkan efek baru
+export function TimedEffects({ name, effects, effectTypes, now, busy, onActivate, onRemove }: Props) {
+  const labels = new Map(effectTypes.map((effectType) => [effectType.id, effectType.label]));
+
+  return (
+    <div className="dashboard__effects">
+      {effects.map((effect) => {
+        const expiresAt = new Date(effect.expires_at);
+        const expired = expiresAt <= now;
+        const label = labels.get(effect.effect_type_id) ?? 'Efek';
+        const chipClass = `dashboard__effect${
+          expired ? ' dashboard__effect--expired' : isExpiringSoon(expiresAt, now) ? ' dashboard__effect--warning' : ''
+        }`;
+        return (
+          <span key={effect.id} className={chipClass} title={`Expired ${format(expiresAt, 'yyyy-MM-dd HH:mm')}`}>
+            {label}: {expired ? 'Expired' : formatRemaining(expiresAt.getTime() - now.getTime())}
+            <button
+              type="button"
+              className="dashboard__effect-remove"
+              aria-label={`Hapus ${label} dari ${name}`}
+              disabled={busy}
+              onClick={() => onRemove(effect)}
+            >
+              ×
+            </button>
+          </span>
+        );
+      })}
+      {effectTypes.length > 0 && (
+        <select
+          className="dashboard__column-set"
+          aria-label={`Aktifkan efek untuk ${name}`}
+          value=""
+          disabled={busy}
+          onChange={(e) => {
+            if (e.target.value) onActivate(Number(e.target.value));
+          }}
+        >
+          <option value="">+ Efek…</option>
+          {effectTypes.map((effectType) => (
+            <option key={effectType.id} value={effectType.id}>
+              {effectType.label}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
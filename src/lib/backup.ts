@@ -0,0 +1,191 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { TaskValues } from '@/lib/tasks';
+
+// Backup seluruh data milik user dalam satu file JSON. `version` dinaikkan kalau bentuknya berubah;
+// restore_backup di database menolak versi yang tidak dikenalnya.
+// v2: + durasi Golden Goose, riwayat golden_activations, jenis efek berwaktu dan efek aktif.
+
+export const BACKUP_FORMAT = 'dn-tracker-backup';
+export const BACKUP_VERSION = 2;
+
+const PAGE_SIZE = 1000;
+
+export type BackupArchive = {
+  format: typeof BACKUP_FORMAT;
+  // file v1 masih bisa di-restore, bagian v2 dianggap kosong
+  version: 1 | typeof BACKUP_VERSION;
+  exported_at: string;
+  settings: { region: string | null; golden_duration_hours: number | null };
+  characters: { id: string; name: string; sort_order: number; archived_at: string | null }[];
+  // baris daily_state terbaru per karakter
+  daily_state: {
+    character_id: string;
+    date: string;
+    tasks: TaskValues;
+    golden_active: boolean | null;
+    golden_started_at: string | null;
+  }[];
+  history_log: {
+    character_id: string;
+    character_name: string;
+    snapshot_date: string;
+    tasks: TaskValues;
+    golden_active: boolean | null;
+    golden_started_at: string | null;
+    golden_expired_at: string | null;
+  }[];
+  golden_activations: {
+    character_id: string;
+    started_at: string;
+    duration_hours: number;
+    expires_at: string;
+    ended_at: string | null;
+    end_reason: string | null;
+  }[];
+  // efek dicocokkan ke jenis efek lewat id jenis di file ini; saat restore jenis dicocokkan per label
+  effect_types: { id: number; label: string; duration_hours: number }[];
+  character_effects: { character_id: string; effect_type_id: number; started_at: string; expires_at: string }[];
+};
+
+export type RestoreResult = {
+  characters_created: number;
+  characters_matched: number;
+  daily_state: number;
+  history_log: number;
+  golden_activations: number;
+  effect_types: number;
+  character_effects: number;
+};
+
+// baca tabel per halaman (batas max-rows PostgREST), berhenti kalau `done` bilang cukup
+async function fetchPaged<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: unknown; error: Error | null }>,
+  done: (rows: T[]) => boolean = () => false
+) {
+  const rows: T[] = [];
+  // halaman pendek belum tentu terakhir (`max-rows` PostgREST bisa < PAGE_SIZE): berhenti di halaman kosong
+  for (let from = 0; ; ) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    const page = (data as T[] | null) ?? [];
+    if (page.length === 0) return rows;
+    rows.push(...page);
+    if (done(rows)) return rows;
+    from += page.length;
+  }
+}
+
+export async function buildBackup(supabase: SupabaseClient, userId: string): Promise<BackupArchive> {
+  const [settings, characters, effectTypes, characterEffects] = await Promise.all([
+    supabase.from('user_settings').select('region, golden_duration_hours').eq('user_id', userId).maybeSingle(),
+    supabase
+      .from('characters')
+      .select('id, name, sort_order, archived_at')
+      .eq('user_id', userId)
+      .order('sort_order', { ascending: true }),
+    supabase.from('effect_types').select('id, label, duration_hours').eq('user_id', userId).order('id'),
+    supabase
+      .from('character_effects')
+      .select('character_id, effect_type_id, started_at, expires_at')
+      .eq('user_id', userId)
+      .order('id'),
+  ]);
+  if (settings.error) throw settings.error;
+  if (characters.error) throw characters.error;
+  if (effectTypes.error) throw effectTypes.error;
+  if (characterEffects.error) throw characterEffects.error;
+
+  const characterIds = new Set((characters.data ?? []).map((c) => c.id as string));
+
+  // terbaru dulu; cukup sampai semua karakter sudah kebagian satu baris
+  const latest = new Map<string, BackupArchive['daily_state'][number]>();
+  await fetchPaged<BackupArchive['daily_state'][number]>(
+    (from, to) =>
+      supabase
+        .from('daily_state')
+        .select('character_id, date, tasks, golden_active, golden_started_at')
+        .eq('user_id', userId)
+        .order('date', { ascending: false })
+        .order('character_id', { ascending: true })
+        .range(from, to),
+    (rows) => {
+      rows.forEach((row) => {
+        if (!latest.has(row.character_id)) latest.set(row.character_id, row);
+      });
+      return latest.size >= characterIds.size;
+    }
+  );
+
+  const history = await fetchPaged<BackupArchive['history_log'][number]>((from, to) =>
+    supabase
+      .from('history_log')
+      .select('character_id, character_name, snapshot_date, tasks, golden_active, golden_started_at, golden_expired_at')
+      .eq('user_id', userId)
+      .order('snapshot_date', { ascending: true })
+      .order('character_id', { ascending: true })
+      .range(from, to)
+  );
+
+  const activations = await fetchPaged<BackupArchive['golden_activations'][number]>((from, to) =>
+    supabase
+      .from('golden_activations')
+      .select('character_id, started_at, duration_hours, expires_at, ended_at, end_reason')
+      .eq('user_id', userId)
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+
+  const userSettings = settings.data as { region: string; golden_duration_hours: number } | null;
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    settings: {
+      region: userSettings?.region ?? null,
+      golden_duration_hours: userSettings?.golden_duration_hours ?? null,
+    },
+    characters: (characters.data as BackupArchive['characters']) ?? [],
+    daily_state: [...latest.values()],
+    history_log: history,
+    golden_activations: activations,
+    effect_types: (effectTypes.data as BackupArchive['effect_types']) ?? [],
+    character_effects: (characterEffects.data as BackupArchive['character_effects']) ?? [],
+  };
+}
+
+/** Cek bentuk dasar file sebelum dikirim ke restore_backup. */
+export function parseBackup(value: unknown): BackupArchive {
+  const archive = value as Partial<BackupArchive> | null;
+  if (!archive || archive.format !== BACKUP_FORMAT) {
+    throw new Error('Bukan file backup DoomDye.');
+  }
+  if (archive.version !== 1 && archive.version !== BACKUP_VERSION) {
+    throw new Error(`Versi backup ${String(archive.version)} tidak didukung.`);
+  }
+  if (!Array.isArray(archive.characters) || !Array.isArray(archive.daily_state) || !Array.isArray(archive.history_log)) {
+    throw new Error('File backup tidak lengkap.');
+  }
+  if (archive.version === 1) {
+    return {
+      ...archive,
+      settings: { region: archive.settings?.region ?? null, golden_duration_hours: null },
+      golden_activations: [],
+      effect_types: [],
+      character_effects: [],
+    } as BackupArchive;
+  }
+  if (
+    !Array.isArray(archive.golden_activations) ||
+    !Array.isArray(archive.effect_types) ||
+    !Array.isArray(archive.character_effects)
+  ) {
+    throw new Error('File backup tidak lengkap.');
+  }
+  return archive as BackupArchive;
+}
+
+export async function restoreBackup(supabase: SupabaseClient, archive: BackupArchive): Promise<RestoreResult> {
+  const { data, error } = await supabase.rpc('restore_backup', { p_archive: archive });
+  if (error) throw error;
+  return data as RestoreResult;
+}
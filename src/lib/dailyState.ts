@@ -0,0 +1,65 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { TaskValues } from '@/lib/tasks';
+
+export type DailyStateRow = {
+  character_id: string;
+  date: string;
+  tasks: TaskValues | null;
+  golden_active: boolean | null;
+  golden_started_at: string | null;
+  revision: number;
+};
+
+export const DAILY_STATE_COLUMNS = 'character_id, date, tasks, golden_active, golden_started_at, revision';
+
+// satu write ke save_daily_states; field yang tidak dikirim dibiarkan apa adanya di server
+export type DailyStatePatch = {
+  character_id: string;
+  date: string;
+  // revision baris (character_id, date) yang jadi dasar edit, null kalau belum ada baris hari itu
+  base_revision: number | null;
+  tasks?: TaskValues;
+  golden_active?: boolean;
+  golden_started_at?: string | null;
+};
+
+// server menolak write karena baris sudah diubah orang lain sejak terakhir dibaca
+export class StaleWriteError extends Error {
+  constructor(public readonly characterId: string) {
+    super('Data karakter ini sudah diubah di tempat lain.');
+    this.name = 'StaleWriteError';
+  }
+}
+
+export async function saveDailyStates(
+  supabase: SupabaseClient,
+  patches: DailyStatePatch[]
+): Promise<DailyStateRow[]> {
+  const { data, error } = await supabase.rpc('save_daily_states', { p_rows: patches });
+
+  if (error) {
+    // 40001 = stale_write dari save_daily_states, detail = character_id
+    if (error.code === '40001') {
+      throw new StaleWriteError(error.details);
+    }
+    throw error;
+  }
+
+  return (data as DailyStateRow[]) ?? [];
+}
+
+export async function fetchDailyState(
+  supabase: SupabaseClient,
+  characterId: string,
+  date: string
+): Promise<DailyStateRow | null> {
+  const { data, error } = await supabase
+    .from('daily_state')
+    .select(DAILY_STATE_COLUMNS)
+    .eq('character_id', characterId)
+    .eq('date', date)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as DailyStateRow | null) ?? null;
+}
@@ -0,0 +1,31 @@
+// Label device untuk audit trail (state_events.device), dikirim sebagai header x-device.
+// Bentuknya "<platform> - <id acak>"; id disimpan di localStorage supaya tetap sama antar sesi.
+
+const STORAGE_KEY = 'dn-tracker-device';
+
+function platformName(userAgent: string) {
+  if (/android/i.test(userAgent)) return 'Android';
+  if (/iphone|ipad/i.test(userAgent)) return 'iOS';
+  if (/windows/i.test(userAgent)) return 'Windows';
+  if (/mac os/i.test(userAgent)) return 'macOS';
+  if (/linux/i.test(userAgent)) return 'Linux';
+  return 'Browser';
+}
+
+export function deviceLabel(): string | null {
+  if (typeof window === 'undefined') return null;
+
+  let id: string | null = null;
+  try {
+    id = window.localStorage.getItem(STORAGE_KEY);
+    if (!id) {
+      id = crypto.randomUUID().slice(0, 8);
+      window.localStorage.setItem(STORAGE_KEY, id);
+    }
+  } catch {
+    // localStorage diblokir (private mode dll): id cuma berlaku untuk tab ini
+    id ??= crypto.randomUUID().slice(0, 8);
+  }
+
+  return `${platformName(navigator.userAgent)} - ${id}`;
+}
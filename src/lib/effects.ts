@@ -0,0 +1,94 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Efek berwaktu per karakter selain Golden Goose (EXP boost, premium pass, tiket event, ...).
+// Jenis efek + durasinya diatur user di /settings; expiry dihitung trigger dari durasi itu,
+// dan daily reset menghapus efek yang sudah lewat expiry.
+
+export const EFFECT_MAX_HOURS = 8760;
+
+export type EffectType = {
+  id: number;
+  label: string;
+  duration_hours: number;
+};
+
+export type CharacterEffect = {
+  id: number;
+  character_id: string;
+  effect_type_id: number;
+  started_at: string;
+  expires_at: string;
+};
+
+export const EFFECT_TYPE_COLUMNS = 'id, label, duration_hours';
+export const CHARACTER_EFFECT_COLUMNS = 'id, character_id, effect_type_id, started_at, expires_at';
+
+export async function fetchEffectTypes(supabase: SupabaseClient, userId: string): Promise<EffectType[]> {
+  const { data, error } = await supabase
+    .from('effect_types')
+    .select(EFFECT_TYPE_COLUMNS)
+    .eq('user_id', userId)
+    .order('label', { ascending: true });
+
+  if (error) {
+    console.error('Failed to fetch effect_types', {
+      message: error.message,
+      details: error.details,
+      hint: error.hint,
+      code: error.code,
+    });
+    return [];
+  }
+
+  return (data as EffectType[]) ?? [];
+}
+
+export async function fetchCharacterEffects(supabase: SupabaseClient, userId: string): Promise<CharacterEffect[]> {
+  const { data, error } = await supabase
+    .from('character_effects')
+    .select(CHARACTER_EFFECT_COLUMNS)
+    .eq('user_id', userId)
+    .order('expires_at', { ascending: true });
+
+  if (error) {
+    console.error('Failed to fetch character_effects', {
+      message: error.message,
+      details: error.details,
+      hint: error.hint,
+      code: error.code,
+    });
+    return [];
+  }
+
+  return (data as CharacterEffect[]) ?? [];
+}
+
+/** Aktifkan efek mulai sekarang; kalau efek yang sama masih aktif, waktunya diperpanjang dari awal. */
+export async function activateEffect(
+  supabase: SupabaseClient,
+  userId: string,
+  characterId: string,
+  effectTypeId: number
+): Promise<CharacterEffect> {
+  const { data, error } = await supabase
+    .from('character_effects')
+    .upsert(
+      {
+        user_id: userId,
+        character_id: characterId,
+        effect_type_id: effectTypeId,
+        started_at: new Date().toISOString(),
+      },
+      { onConflict: 'character_id,effect_type_id' }
+    )
+    .select(CHARACTER_EFFECT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data as CharacterEffect;
+}
+
+export async function removeEffect(supabase: SupabaseClient, effectId: number) {
+  const { error } = await supabase.from('character_effects').delete().eq('id', effectId);
+  if (error) throw error;
+}
@@ -0,0 +1,116 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { gameDayEnd, gameDayStart, type ServerRegion } from '@/lib/regions';
+
+// Golden Goose per aktivasi (tabel golden_activations, diisi trigger daily_state).
+// Durasi diatur per user di user_settings.golden_duration_hours; aktivasi yang sudah jalan
+// tetap memakai durasi saat diaktifkan.
+
+export const GOLDEN_DEFAULT_HOURS = 168;
+export const GOLDEN_MAX_HOURS = 720;
+// badge peringatan muncul kalau sisa waktu di bawah ini
+export const GOLDEN_WARNING_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type GoldenEndReason = 'expired' | 'cancelled';
+
+export type GoldenActivation = {
+  id: number;
+  character_id: string;
+  started_at: string;
+  duration_hours: number;
+  expires_at: string;
+  // null = masih aktif
+  ended_at: string | null;
+  end_reason: GoldenEndReason | null;
+};
+
+export const GOLDEN_ACTIVATION_COLUMNS = 'id, character_id, started_at, duration_hours, expires_at, ended_at, end_reason';
+
+/**
+ * Waktu expiry Golden Goose yang sedang jalan. Pakai record aktivasinya kalau ada; aktivasi yang
+ * baru dibuat di board (record-nya belum dibaca ulang) dihitung dari durasi setting user.
+ */
+export function goldenExpiry(
+  startedAt: string | null,
+  activation: GoldenActivation | undefined,
+  durationHours: number
+): Date | null {
+  if (!startedAt) return null;
+  if (activation && Date.parse(activation.started_at) === Date.parse(startedAt)) {
+    return new Date(activation.expires_at);
+  }
+  return new Date(Date.parse(startedAt) + durationHours * HOUR_MS);
+}
+
+/** "37 jam 5 menit"; dibulatkan ke bawah per menit. */
+export function formatRemaining(ms: number) {
+  const minutes = Math.max(0, Math.floor(ms / 60_000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours} jam ${minutes % 60} menit` : `${minutes} menit`;
+}
+
+export function isExpiringSoon(expiresAt: Date, now: Date) {
+  const remaining = expiresAt.getTime() - now.getTime();
+  return remaining > 0 && remaining <= GOLDEN_WARNING_HOURS * HOUR_MS;
+}
+
+export async function fetchGoldenDuration(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('golden_duration_hours')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to fetch user_settings', {
+      message: error.message,
+      details: error.details,
+      hint: error.hint,
+      code: error.code,
+    });
+  }
+
+  return (data as { golden_duration_hours: number } | null)?.golden_duration_hours ?? GOLDEN_DEFAULT_HOURS;
+}
+
+/** Aktivasi yang belum berakhir, untuk countdown di board. */
+export async function fetchOpenActivations(supabase: SupabaseClient, userId: string): Promise<GoldenActivation[]> {
+  const { data, error } = await supabase
+    .from('golden_activations')
+    .select(GOLDEN_ACTIVATION_COLUMNS)
+    .eq('user_id', userId)
+    .is('ended_at', null);
+
+  if (error) {
+    console.error('Failed to fetch golden_activations', {
+      message: error.message,
+      details: error.details,
+      hint: error.hint,
+      code: error.code,
+    });
+    return [];
+  }
+
+  return (data as GoldenActivation[]) ?? [];
+}
+
+/**
+ * Riwayat aktivasi yang bersinggungan dengan rentang game day (YYYY-MM-DD, inklusif), terbaru dulu.
+ * Batas tanggal dihitung dari jam reset & zona waktu region user, bukan tengah malam UTC.
+ */
+export async function fetchActivationHistory(
+  supabase: SupabaseClient,
+  userId: string,
+  region: ServerRegion,
+  options: { characterId?: string; start?: string; end?: string }
+): Promise<GoldenActivation[]> {
+  let query = supabase.from('golden_activations').select(GOLDEN_ACTIVATION_COLUMNS).eq('user_id', userId);
+  if (options.characterId) query = query.eq('character_id', options.characterId);
+  if (options.start) query = query.gte('expires_at', gameDayStart(region, options.start));
+  if (options.end) query = query.lt('started_at', gameDayEnd(region, options.end));
+
+  const { data, error } = await query.order('started_at', { ascending: false });
+  if (error) throw error;
+  return (data as GoldenActivation[]) ?? [];
+}
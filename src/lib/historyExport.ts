@@ -0,0 +1,99 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { historyQuery, type HistoryFilters } from '@/lib/historyFilters';
+import { flattenTaskColumns, type TaskDefinition } from '@/lib/tasks';
+
+// Baca history_log per halaman untuk export, supaya tidak kepotong batas 1000 baris PostgREST
+
+export type HistoryRow = Record<string, unknown>;
+
+export type HistoryRange = Pick<HistoryFilters, 'start' | 'end'>;
+
+export const EXPORT_FORMATS = [
+  { key: 'csv', label: 'CSV', contentType: 'text/csv; charset=utf-8' },
+  { key: 'json', label: 'JSON', contentType: 'application/json; charset=utf-8' },
+  { key: 'ndjson', label: 'NDJSON', contentType: 'application/x-ndjson; charset=utf-8' },
+  {
+    key: 'xlsx',
+    label: 'Excel (XLSX)',
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]['key'];
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return EXPORT_FORMATS.some((format) => format.key === value);
+}
+
+// rows = satu baris per snapshot, summary = satu baris per karakter (lihat historySummary)
+export type ExportMode = 'rows' | 'summary';
+
+export function isExportMode(value: string): value is ExportMode {
+  return value === 'rows' || value === 'summary';
+}
+
+/** Nama file download, mis. history-log-2026-10-01_2026-10-19.xlsx */
+export function exportFilename(range: HistoryRange, format: ExportFormat, mode: ExportMode = 'rows') {
+  const prefix = mode === 'summary' ? 'history-summary' : 'history-log';
+  return `${prefix}-${range.start || 'all'}_${range.end || 'all'}.${format}`;
+}
+
+// batas default max-rows PostgREST; satu halaman tidak boleh lebih dari ini
+export const EXPORT_PAGE_SIZE = 1000;
+
+/** Urutan kolom export: tetap, tidak tergantung isi data (kolom task ikut urutan katalog). */
+export function exportColumns(tasks: TaskDefinition[]) {
+  return [
+    'snapshot_date',
+    'character_name',
+    'character_id',
+    ...tasks.map((task) => task.key),
+    'golden_active',
+    'golden_started_at',
+    'golden_expired_at',
+  ];
+}
+
+/** Semua snapshot user yang lolos `filters`, per halaman (range pagination). */
+export async function* fetchHistoryPages(
+  supabase: SupabaseClient,
+  userId: string,
+  filters: HistoryFilters,
+  tasks: TaskDefinition[]
+): AsyncGenerator<HistoryRow[]> {
+  // `max-rows` PostgREST bisa lebih kecil dari EXPORT_PAGE_SIZE, jadi halaman pendek belum tentu
+  // yang terakhir: lanjut dari jumlah baris yang benar-benar diterima sampai halaman kosong
+  for (let from = 0; ; ) {
+    const { data, error } = await historyQuery(supabase, userId, filters).range(from, from + EXPORT_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    const rows = ((data ?? []) as HistoryRow[]).map((row) => flattenTaskColumns(row, tasks));
+    if (rows.length === 0) return;
+    yield rows;
+    from += rows.length;
+  }
+}
+
+/** Satu baris sebagai object dengan key persis `columns` (yang kosong jadi null). */
+export function pickColumns(row: HistoryRow, columns: string[]) {
+  return Object.fromEntries(columns.map((column) => [column, row[column] ?? null]));
+}
+
+export function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  const str = String(value);
+  const escaped = str.replace(/"/g, '""');
+  return /[",\r\n]/.test(str) ? `"${escaped}"` : escaped;
+}
+
+export function toCsvLine(values: unknown[]) {
+  return `${values.map(escapeCsvValue).join(',')}\r\n`;
+}
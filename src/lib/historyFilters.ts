@@ -0,0 +1,132 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { format, isValid, parseISO } from 'date-fns';
+
+// Filter & urutan History Log, dipakai bersama oleh tabel di /log (lewat query string URL)
+// dan /api/export, supaya file export selalu berisi baris yang sama dengan yang terlihat.
+
+export type SortDirection = 'asc' | 'desc';
+
+export type HistoryFilters = {
+  // YYYY-MM-DD, inklusif; undefined = tanpa batas
+  start?: string;
+  end?: string;
+  characterId?: string;
+  // key task katalog; `status` = nilai task itu (bentuk teks, mis. "skip" atau "true")
+  task?: string;
+  status?: string;
+  // kolom export (snapshot_date, character_name, golden_*) atau key task
+  sort?: string;
+  dir?: SortDirection;
+};
+
+export const DEFAULT_SORT = 'snapshot_date';
+export const DEFAULT_DIR: SortDirection = 'desc';
+
+export const SORTABLE_COLUMNS = [
+  'snapshot_date',
+  'character_name',
+  'golden_active',
+  'golden_started_at',
+  'golden_expired_at',
+];
+// key task dipakai di path json (tasks->>key), jadi bentuknya dikunci sama seperti check di task_definitions
+const TASK_KEY = /^[a-z][a-z0-9_]*$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const HISTORY_COLUMNS =
+  'snapshot_date, character_name, character_id, tasks, golden_active, golden_started_at, golden_expired_at';
+
+function parseDateParam(value: string | null, boundary: 'start' | 'end') {
+  if (!value) {
+    return undefined;
+  }
+
+  const parsed = parseISO(value);
+  if (!isValid(parsed)) {
+    throw new Error(`Invalid ${boundary} date. Expected ISO format.`);
+  }
+
+  // snapshot_date kolom date (YYYY-MM-DD), jadi bandingkan sebagai tanggal
+  return format(parsed, 'yyyy-MM-dd');
+}
+
+export function isSortable(column: string) {
+  return SORTABLE_COLUMNS.includes(column) || TASK_KEY.test(column);
+}
+
+/** Baca filter dari query string; nilai yang tidak valid -> Error (route export balas 400). */
+export function parseHistoryFilters(params: URLSearchParams): HistoryFilters {
+  const filters: HistoryFilters = {
+    start: parseDateParam(params.get('start'), 'start'),
+    end: parseDateParam(params.get('end'), 'end'),
+  };
+
+  const characterId = params.get('character');
+  if (characterId) {
+    if (!UUID.test(characterId)) throw new Error('Invalid character filter.');
+    filters.characterId = characterId;
+  }
+
+  const task = params.get('task');
+  if (task) {
+    if (!TASK_KEY.test(task)) throw new Error('Invalid task filter.');
+    filters.task = task;
+    filters.status = params.get('status') || undefined;
+  }
+
+  const sort = params.get('sort');
+  if (sort) {
+    if (!isSortable(sort)) throw new Error('Invalid sort column.');
+    filters.sort = sort;
+  }
+  const dir = params.get('dir');
+  if (dir) {
+    if (dir !== 'asc' && dir !== 'desc') throw new Error('Invalid sort direction.');
+    filters.dir = dir;
+  }
+
+  return filters;
+}
+
+/** Kebalikan parseHistoryFilters; nilai default tidak ditulis supaya URL tetap pendek. */
+export function historyFilterParams(filters: HistoryFilters) {
+  const params = new URLSearchParams();
+  if (filters.start) params.set('start', filters.start);
+  if (filters.end) params.set('end', filters.end);
+  if (filters.characterId) params.set('character', filters.characterId);
+  if (filters.task) {
+    params.set('task', filters.task);
+    if (filters.status) params.set('status', filters.status);
+  }
+  if (filters.sort && filters.sort !== DEFAULT_SORT) params.set('sort', filters.sort);
+  if (filters.dir && filters.dir !== DEFAULT_DIR) params.set('dir', filters.dir);
+  return params;
+}
+
+function sortColumn(sort: string) {
+  return SORTABLE_COLUMNS.includes(sort) ? sort : `tasks->>${sort}`;
+}
+
+/**
+ * Query history_log milik user dengan filter + urutan. Urutan selalu ditutup sampai
+ * character_id supaya baris tidak lompat antar halaman.
+ */
+export function historyQuery(
+  supabase: SupabaseClient,
+  userId: string,
+  filters: HistoryFilters,
+  options: { count?: 'exact' } = {}
+) {
+  // client user-scoped: RLS history_log tetap berlaku, filter user_id untuk jaga-jaga
+  let query = supabase.from('history_log').select(HISTORY_COLUMNS, options).eq('user_id', userId);
+  if (filters.start) query = query.gte('snapshot_date', filters.start);
+  if (filters.end) query = query.lte('snapshot_date', filters.end);
+  if (filters.characterId) query = query.eq('character_id', filters.characterId);
+  if (filters.task && filters.status !== undefined) query = query.eq(`tasks->>${filters.task}`, filters.status);
+
+  const sort = filters.sort ?? DEFAULT_SORT;
+  query = query.order(sortColumn(sort), { ascending: (filters.dir ?? DEFAULT_DIR) === 'asc' });
+  if (sort !== 'snapshot_date') query = query.order('snapshot_date', { ascending: false });
+  if (sort !== 'character_name') query = query.order('character_name', { ascending: true });
+  return query.order('character_id', { ascending: true });
+}
@@ -0,0 +1,239 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { format, isValid, parseISO } from 'date-fns';
+import { fetchHistoryPages, type HistoryRow } from '@/lib/historyExport';
+import type { TaskDefinition, TaskValue, TaskValues } from '@/lib/tasks';
+
+// Import CSV (bentuk sama dengan hasil /api/export) ke history_log.
+// Alur: parse -> validasi per baris -> bandingkan dengan data yang ada (dry run) -> tulis.
+
+// satu snapshot yang sudah lolos validasi, siap dikirim ke import_history_rows
+export type ImportRow = {
+  character_id: string;
+  character_name: string;
+  snapshot_date: string;
+  tasks: TaskValues;
+  golden_active: boolean;
+  golden_started_at: string | null;
+  golden_expired_at: string | null;
+};
+
+export type ImportRejection = {
+  // nomor baris di file (header = baris 1)
+  line: number;
+  errors: string[];
+};
+
+export type ImportPlan = {
+  inserted: ImportRow[];
+  updated: { row: ImportRow; before: HistoryRow }[];
+  unchanged: number;
+  rejected: ImportRejection[];
+};
+
+type ImportCharacter = { id: string; name: string };
+
+/** Parser CSV sederhana (RFC 4180): kutip ganda, "" di dalam kutip, CRLF / LF. */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // baris kosong (mis. newline di akhir file) dibuang
+  return records.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+// nilai CSV selalu string; cocokkan ke option katalog lewat bentuk string-nya
+function parseTaskValue(definition: TaskDefinition, raw: string): { value?: TaskValue; error?: string } {
+  if (raw === '') return { value: null };
+  const option = definition.options.find((o) => String(o.value) === raw || o.label === raw);
+  if (!option) {
+    const allowed = definition.options.map((o) => String(o.value)).join(', ');
+    return { error: `${definition.label}: "${raw}" tidak valid (pilihan: ${allowed})` };
+  }
+  return { value: option.value };
+}
+
+function parseTimestamp(raw: string) {
+  if (raw === '') return { value: null };
+  const parsed = parseISO(raw);
+  return isValid(parsed) ? { value: parsed.toISOString() } : { error: `Waktu "${raw}" tidak valid` };
+}
+
+/**
+ * Validasi isi CSV. Karakter dicari lewat character_id (kalau ada dan milik user),
+ * kalau tidak lewat nama (tidak peka huruf besar/kecil). Kolom yang tidak dikenal diabaikan.
+ */
+export function validateImport(
+  text: string,
+  tasks: TaskDefinition[],
+  characters: ImportCharacter[]
+): { rows: ImportRow[]; rejected: ImportRejection[] } {
+  const [header, ...records] = parseCsv(text);
+  if (!header) throw new Error('File CSV kosong.');
+
+  const columns = header.map((column) => column.trim());
+  const indexOf = (column: string) => columns.indexOf(column);
+  if (indexOf('snapshot_date') === -1) throw new Error('Kolom snapshot_date wajib ada.');
+  if (indexOf('character_id') === -1 && indexOf('character_name') === -1) {
+    throw new Error('Butuh kolom character_id atau character_name.');
+  }
+
+  const byId = new Map(characters.map((c) => [c.id, c]));
+  const byName = new Map<string, ImportCharacter[]>();
+  characters.forEach((c) => {
+    const key = c.name.trim().toLowerCase();
+    byName.set(key, [...(byName.get(key) ?? []), c]);
+  });
+  const taskColumns = tasks.filter((task) => indexOf(task.key) !== -1);
+
+  const rows: ImportRow[] = [];
+  const rejected: ImportRejection[] = [];
+  const seen = new Set<string>();
+
+  records.forEach((record, index) => {
+    const line = index + 2;
+    const errors: string[] = [];
+    const get = (column: string) => {
+      const i = indexOf(column);
+      return i === -1 ? '' : (record[i] ?? '').trim();
+    };
+
+    let character: ImportCharacter | undefined = byId.get(get('character_id'));
+    if (!character) {
+      const name = get('character_name');
+      const matches = byName.get(name.toLowerCase()) ?? [];
+      if (matches.length === 1) character = matches[0];
+      else if (matches.length > 1) errors.push(`Nama karakter "${name}" tidak unik, isi character_id`);
+      else errors.push(`Karakter "${name || get('character_id')}" tidak ditemukan`);
+    }
+
+    const date = parseISO(get('snapshot_date'));
+    const snapshotDate = isValid(date) ? format(date, 'yyyy-MM-dd') : null;
+    if (!snapshotDate) errors.push(`snapshot_date "${get('snapshot_date')}" tidak valid (YYYY-MM-DD)`);
+
+    const values: TaskValues = {};
+    taskColumns.forEach((task) => {
+      const parsed = parseTaskValue(task, get(task.key));
+      if (parsed.error) errors.push(parsed.error);
+      else if (parsed.value !== null && parsed.value !== undefined) values[task.key] = parsed.value;
+    });
+
+    const goldenRaw = get('golden_active').toLowerCase();
+    if (!['', 'true', 'false'].includes(goldenRaw)) errors.push(`golden_active "${goldenRaw}" harus true / false`);
+    const started = parseTimestamp(get('golden_started_at'));
+    const expired = parseTimestamp(get('golden_expired_at'));
+    if (started.error) errors.push(`golden_started_at: ${started.error}`);
+    if (expired.error) errors.push(`golden_expired_at: ${expired.error}`);
+
+    const key = `${character?.id}|${snapshotDate}`;
+    if (character && snapshotDate && seen.has(key)) {
+      errors.push(`Duplikat: ${character.name} ${snapshotDate} sudah ada di baris sebelumnya`);
+    }
+
+    if (errors.length > 0 || !character || !snapshotDate) {
+      rejected.push({ line, errors });
+      return;
+    }
+
+    seen.add(key);
+    const startedAt = started.value ?? null;
+    rows.push({
+      character_id: character.id,
+      character_name: character.name,
+      snapshot_date: snapshotDate,
+      tasks: values,
+      golden_active: goldenRaw === 'true',
+      golden_started_at: startedAt,
+      // kosong -> dihitung server dari golden_started_at (trigger history_log), sama seperti snapshot harian
+      golden_expired_at: expired.value ?? null,
+    });
+  });
+
+  return { rows, rejected };
+}
+
+function sameTimestamp(a: unknown, b: string | null) {
+  if (a === null || a === undefined || a === '') return b === null;
+  return b !== null && Date.parse(String(a)) === Date.parse(b);
+}
+
+function sameSnapshot(existing: HistoryRow, row: ImportRow, tasks: TaskDefinition[]) {
+  return (
+    // tasks di-merge saat import: task yang kosong di file tidak mengubah nilai lama
+    tasks.every((task) => !(task.key in row.tasks) || (existing[task.key] ?? null) === row.tasks[task.key]) &&
+    Boolean(existing.golden_active) === row.golden_active &&
+    sameTimestamp(existing.golden_started_at, row.golden_started_at) &&
+    // expiry kosong di file diisi server, jadi tidak dihitung sebagai perubahan
+    (row.golden_expired_at === null || sameTimestamp(existing.golden_expired_at, row.golden_expired_at))
+  );
+}
+
+/** Dry run: pisahkan baris valid jadi insert baru / update / tidak berubah dibanding history_log. */
+export async function planImport(
+  supabase: SupabaseClient,
+  userId: string,
+  rows: ImportRow[],
+  rejected: ImportRejection[],
+  tasks: TaskDefinition[]
+): Promise<ImportPlan> {
+  const plan: ImportPlan = { inserted: [], updated: [], unchanged: 0, rejected };
+  if (rows.length === 0) return plan;
+
+  const dates = rows.map((row) => row.snapshot_date).sort();
+  const existing = new Map<string, HistoryRow>();
+  for await (const page of fetchHistoryPages(
+    supabase,
+    userId,
+    { start: dates[0], end: dates[dates.length - 1] },
+    tasks
+  )) {
+    page.forEach((row) => existing.set(`${row.character_id}|${row.snapshot_date}`, row));
+  }
+
+  rows.forEach((row) => {
+    const before = existing.get(`${row.character_id}|${row.snapshot_date}`);
+    if (!before) plan.inserted.push(row);
+    else if (sameSnapshot(before, row, tasks)) plan.unchanged++;
+    else plan.updated.push({ row, before });
+  });
+  return plan;
+}
+
+export async function commitImport(supabase: SupabaseClient, rows: ImportRow[]) {
+  const { data, error } = await supabase.rpc('import_history_rows', { p_rows: rows });
+  if (error) throw error;
+  const [counts] = (data as { inserted: number; updated: number }[] | null) ?? [];
+  return counts ?? { inserted: 0, updated: 0 };
+}
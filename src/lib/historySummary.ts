@@ -0,0 +1,115 @@
+import type { HistoryRow } from '@/lib/historyExport';
+import type { TaskDefinition } from '@/lib/tasks';
+
+// Ringkasan history_log per karakter untuk export mode=summary
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// task tanpa done_value tidak punya status selesai, jadi tidak ikut dihitung
+function countedTasks(tasks: TaskDefinition[]) {
+  return tasks.filter((task) => task.done_value !== null);
+}
+
+/** Kolom ringkasan: per task ada jumlah selesai dan rate (0..1). */
+export function summaryColumns(tasks: TaskDefinition[]) {
+  return [
+    'character_name',
+    'character_id',
+    'days_tracked',
+    ...countedTasks(tasks).flatMap((task) => [`${task.key}_done`, `${task.key}_rate`]),
+    'golden_activations',
+    'longest_streak',
+  ];
+}
+
+export function summaryLabels(tasks: TaskDefinition[]) {
+  return Object.fromEntries([
+    ['character_name', 'Character'],
+    ['character_id', 'Character ID'],
+    ['days_tracked', 'Hari tercatat'],
+    ...countedTasks(tasks).flatMap((task) => [
+      [`${task.key}_done`, `${task.label} selesai`],
+      [`${task.key}_rate`, `${task.label} rate`],
+    ]),
+    ['golden_activations', 'Aktivasi Golden Goose'],
+    ['longest_streak', 'Streak terpanjang'],
+  ]) as Record<string, string>;
+}
+
+type CharacterTally = {
+  name: unknown;
+  days: Set<string>;
+  done: Record<string, number>;
+  // hari yang semua task daily-nya selesai
+  completeDays: Set<string>;
+  goldenStarts: Set<string>;
+};
+
+function longestStreak(days: Set<string>) {
+  const sorted = [...days].map((day) => Date.parse(`${day}T00:00:00Z`)).sort((a, b) => a - b);
+  let best = 0;
+  let current = 0;
+  sorted.forEach((time, index) => {
+    current = index > 0 && time - sorted[index - 1] === DAY_MS ? current + 1 : 1;
+    best = Math.max(best, current);
+  });
+  return best;
+}
+
+/**
+ * Hitung ringkasan dari baris history yang sudah di-flatten (lihat flattenTaskColumns).
+ * Snapshot ganda di tanggal yang sama dihitung sekali. Aktivasi Golden Goose dihitung dari
+ * golden_started_at yang berbeda, streak = hari berturut-turut dengan semua task daily selesai
+ * (task weekly tidak diulang tiap hari, jadi tidak ikut memutus streak).
+ */
+export async function summarizeHistory(
+  pages: AsyncIterable<HistoryRow[]>,
+  tasks: TaskDefinition[]
+): Promise<HistoryRow[]> {
+  const counted = countedTasks(tasks);
+  const daily = counted.filter((task) => task.reset_cadence === 'daily');
+  const tallies = new Map<string, CharacterTally>();
+
+  for await (const page of pages) {
+    page.forEach((row) => {
+      const characterId = String(row.character_id);
+      const day = String(row.snapshot_date);
+      let tally = tallies.get(characterId);
+      if (!tally) {
+        tally = { name: row.character_name, days: new Set(), done: {}, completeDays: new Set(), goldenStarts: new Set() };
+        tallies.set(characterId, tally);
+      }
+      if (tally.days.has(day)) return;
+      tally.days.add(day);
+
+      const doneKeys = counted.filter((task) => row[task.key] === task.done_value).map((task) => task.key);
+      doneKeys.forEach((key) => {
+        tally.done[key] = (tally.done[key] ?? 0) + 1;
+      });
+      if (daily.length > 0 && daily.every((task) => doneKeys.includes(task.key))) tally.completeDays.add(day);
+      if (row.golden_active && row.golden_started_at) tally.goldenStarts.add(String(row.golden_started_at));
+    });
+  }
+
+  return [...tallies.entries()]
+    .map(([characterId, tally]) => {
+      const days = tally.days.size;
+      return {
+        character_name: tally.name,
+        character_id: characterId,
+        days_tracked: days,
+        ...Object.fromEntries(
+          counted.flatMap((task) => {
+            const done = tally.done[task.key] ?? 0;
+            return [
+              [`${task.key}_done`, done],
+              [`${task.key}_rate`, days > 0 ? Math.round((done / days) * 1000) / 1000 : 0],
+            ];
+          })
+        ),
+        golden_activations: tally.goldenStarts.size,
+        longest_streak: longestStreak(tally.completeDays),
+      } as HistoryRow;
+    })
+    .sort((a, b) => String(a.character_name).localeCompare(String(b.character_name)));
+}
@@ -0,0 +1,76 @@
+import { PassThrough, Readable } from 'node:stream';
+import ExcelJS from 'exceljs';
+import type { HistoryRow } from '@/lib/historyExport';
+
+// Export history_log sebagai workbook .xlsx (server only). Ditulis per baris lewat
+// WorkbookWriter, jadi tidak perlu menampung seluruh workbook di memori.
+
+const DATE_COLUMNS = new Set(['snapshot_date']);
+const BOOLEAN_COLUMNS = new Set(['golden_active']);
+
+function isTimestampColumn(column: string) {
+  return column.endsWith('_at');
+}
+
+// tanggal / timestamp jadi cell Date, boolean tetap boolean; sisanya apa adanya
+function toCellValue(column: string, value: unknown): ExcelJS.CellValue {
+  if (value === null || value === undefined) return null;
+  if (DATE_COLUMNS.has(column) && typeof value === 'string') {
+    // kolom date tanpa jam: jangan geser zona waktu
+    return new Date(`${value}T00:00:00Z`);
+  }
+  if (isTimestampColumn(column) && typeof value === 'string') {
+    const parsed = new Date(value);
+    return Number.isNaN(parsed.getTime()) ? value : parsed;
+  }
+  if (BOOLEAN_COLUMNS.has(column)) return Boolean(value);
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+}
+
+function numFmtFor(column: string) {
+  if (DATE_COLUMNS.has(column)) return 'yyyy-mm-dd';
+  if (isTimestampColumn(column)) return 'yyyy-mm-dd hh:mm';
+  return undefined;
+}
+
+/**
+ * Stream workbook berisi satu sheet "History Log". `pages` dibaca sampai habis,
+ * error di tengah jalan memutus stream.
+ */
+export function historyXlsxStream(
+  columns: string[],
+  labels: Record<string, string>,
+  pages: AsyncIterable<HistoryRow[]>
+): ReadableStream<Uint8Array> {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+  const sheet = workbook.addWorksheet('History Log', { views: [{ state: 'frozen', ySplit: 1 }] });
+
+  sheet.columns = columns.map((column) => {
+    const numFmt = numFmtFor(column);
+    return {
+      header: labels[column] ?? column,
+      key: column,
+      width: numFmt ? 18 : 16,
+      style: numFmt ? { numFmt } : undefined,
+    };
+  });
+
+  void (async () => {
+    try {
+      for await (const page of pages) {
+        page.forEach((row) => {
+          sheet.addRow(columns.map((column) => toCellValue(column, row[column]))).commit();
+        });
+      }
+      sheet.commit();
+      await workbook.commit();
+    } catch (error) {
+      console.error('history_log XLSX export failed mid-stream', error);
+      output.destroy(error instanceof Error ? error : new Error(String(error)));
+    }
+  })();
+
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>;
+}
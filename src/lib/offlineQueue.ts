@@ -0,0 +1,84 @@
+import { StaleWriteError, type DailyStatePatch } from '@/lib/dailyState';
+
+// Antrian write daily_state yang gagal / dibuat saat offline, disimpan di IndexedDB
+// supaya tidak hilang walau tab ditutup. Di-replay berurutan saat koneksi kembali.
+
+export type PendingWrite = {
+  id: number;
+  userId: string;
+  // satu edit, atau satu batch aksi massal yang harus tersimpan / batal bersama (satu
+  // save_daily_states). Tiap patch lengkap dengan `date` game day saat edit dibuat
+  patches: DailyStatePatch[];
+  queuedAt: string;
+};
+
+const DB_NAME = 'dn-tracker';
+const DB_VERSION = 1;
+const STORE = 'pending_writes';
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('userId', 'userId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+  return requestToPromise(run(db.transaction(STORE, mode).objectStore(STORE)));
+}
+
+export async function enqueueWrite(userId: string, patches: DailyStatePatch[]) {
+  const item: Omit<PendingWrite, 'id'> = { userId, patches, queuedAt: new Date().toISOString() };
+  return Number(await withStore('readwrite', (store) => store.add(item)));
+}
+
+/** Semua write pending milik user, urut sesuai waktu masuk antrian. */
+export async function listPendingWrites(userId: string) {
+  const items = await withStore('readonly', (store) => store.index('userId').getAll(userId));
+  return (items as PendingWrite[]).sort((a, b) => a.id - b.id);
+}
+
+export async function removePendingWrite(id: number) {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+// fetch gagal (offline / DNS / timeout). postgrest-js tidak throw di sini: error-nya objek biasa
+// (bukan instance Error) dengan code '' (status 0) dan message 'TypeError: fetch failed ...'
+export function isNetworkError(error: unknown) {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+  if (!error || typeof error !== 'object') return false;
+
+  const { code, message } = error as { code?: unknown; message?: unknown };
+  if (code === '') return true;
+  return !code && typeof message === 'string' && /^(TypeError|FetchError)\b|fetch failed|network/i.test(message);
+}
+
+// ditolak server dan tidak akan berhasil kalau dikirim ulang apa adanya: konflik revision,
+// atau SQLSTATE kelas 22 (nilai tidak valid), 23 (constraint), 42 (permission / skema)
+export function isPermanentWriteError(error: unknown) {
+  if (error instanceof StaleWriteError) return true;
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && /^(22|23|42)/.test(code);
+}
@@ -0,0 +1,137 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Jadwal reset per server Dragon Nest, disimpan di tabel server_regions
+export type ServerRegion = {
+  key: string;
+  label: string;
+  time_zone: string;
+  // jam lokal (0-23) saat daily reset; game day berganti di jam ini
+  reset_hour: number;
+  // 0 = Minggu ... 6 = Sabtu
+  weekly_reset_day: number;
+};
+
+export const DEFAULT_REGION_KEY = 'sea';
+
+// fallback kalau tabel belum bisa dibaca (jadwal lama: 08:00 WIB, weekly Sabtu)
+export const FALLBACK_REGION: ServerRegion = {
+  key: DEFAULT_REGION_KEY,
+  label: 'SEA',
+  time_zone: 'Asia/Jakarta',
+  reset_hour: 8,
+  weekly_reset_day: 6,
+};
+
+// route cron jalan tiap jam; reset region dianggap jatuh tempo selama jendela ini setelah jam resetnya
+export const RESET_WINDOW_HOURS = 2;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function zonedParts(at: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '00';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+  };
+}
+
+function addDaysToISODate(isoDate: string, days: number) {
+  return new Date(Date.parse(`${isoDate}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// selisih jam lokal region terhadap UTC pada waktu `at` (ms, termasuk DST)
+function zoneOffsetMs(at: Date, timeZone: string) {
+  const { date, hour, minute } = zonedParts(at, timeZone);
+  const local = Date.parse(`${date}T${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}:00Z`);
+  return local - Math.floor(at.getTime() / 60_000) * 60_000;
+}
+
+/** Awal game day `isoDate` (jam reset lokal region) sebagai timestamp ISO UTC, untuk filter kolom timestamptz. */
+export function gameDayStart(region: ServerRegion, isoDate: string) {
+  const wall = Date.parse(`${isoDate}T${String(region.reset_hour).padStart(2, '0')}:00:00Z`);
+  // dua kali supaya offset yang dipakai offset pada jam itu sendiri (aman di sekitar pergantian DST)
+  const guess = wall - zoneOffsetMs(new Date(wall), region.time_zone);
+  return new Date(wall - zoneOffsetMs(new Date(guess), region.time_zone)).toISOString();
+}
+
+/** Awal game day setelah `isoDate`; batas atas eksklusif rentang tanggal inklusif. */
+export function gameDayEnd(region: ServerRegion, isoDate: string) {
+  return gameDayStart(region, addDaysToISODate(isoDate, 1));
+}
+
+/** Game day (YYYY-MM-DD) region pada waktu `at`: tanggal lokal yang mundur sebesar jam reset. */
+export function gameDay(region: ServerRegion, at: Date = new Date()) {
+  return zonedParts(new Date(at.getTime() - region.reset_hour * HOUR_MS), region.time_zone).date;
+}
+
+/** Game day terakhir yang sudah selesai, tanggal untuk snapshot history_log. */
+export function previousGameDay(region: ServerRegion, at: Date = new Date()) {
+  return addDaysToISODate(gameDay(region, at), -1);
+}
+
+/** Game day awal minggu berjalan (hari weekly reset terakhir). */
+export function gameWeekStart(region: ServerRegion, at: Date = new Date()) {
+  const day = gameDay(region, at);
+  const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+  return addDaysToISODate(day, -((weekday - region.weekly_reset_day + 7) % 7));
+}
+
+/** Sudah berapa jam sejak daily reset terakhir region ini. */
+export function hoursSinceDailyReset(region: ServerRegion, at: Date = new Date()) {
+  const { hour, minute } = zonedParts(new Date(at.getTime() - region.reset_hour * HOUR_MS), region.time_zone);
+  return hour + minute / 60;
+}
+
+export async function fetchServerRegions(supabase: SupabaseClient): Promise<ServerRegion[]> {
+  const { data, error } = await supabase
+    .from('server_regions')
+    .select('key, label, time_zone, reset_hour, weekly_reset_day')
+    .order('label', { ascending: true });
+
+  if (error) {
+    console.error('Failed to fetch server_regions', {
+      message: error.message,
+      details: error.details,
+      hint: error.hint,
+      code: error.code,
+    });
+    return [FALLBACK_REGION];
+  }
+
+  return (data as ServerRegion[]) ?? [FALLBACK_REGION];
+}
+
+export async function fetchUserRegion(supabase: SupabaseClient, userId: string): Promise<ServerRegion> {
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('server_regions(key, label, time_zone, reset_hour, weekly_reset_day)')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to fetch user_settings', {
+      message: error.message,
+      details: error.details,
+      hint: error.hint,
+      code: error.code,
+    });
+  }
+
+  const region = (data as { server_regions: ServerRegion | null } | null)?.server_regions;
+  if (region) return region;
+
+  // belum pernah simpan setting: pakai region default
+  const regions = await fetchServerRegions(supabase);
+  return regions.find((r) => r.key === DEFAULT_REGION_KEY) ?? FALLBACK_REGION;
+}
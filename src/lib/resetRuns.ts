@@ -0,0 +1,181 @@
+import { timingSafeEqual } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+export type ResetType = 'daily' | 'weekly';
+
+export type ResetRun = {
+  id: number;
+  reset_type: ResetType;
+  region: string;
+  period_date: string;
+  status: 'running' | 'succeeded' | 'failed';
+  steps_done: string[];
+  result: Record<string, unknown> | null;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+};
+
+export type ResetStep = {
+  name: string;
+  run: () => Promise<unknown>;
+};
+
+export type ResetOutcome =
+  | { ok: true; replayed: boolean; run: ResetRun }
+  | { ok: false; replayed: boolean; step: string | null; error: string; run: ResetRun | null };
+
+// run yang masih `running` selama ini dianggap mati (function crash / timeout) dan boleh diambil alih
+const STALE_RUN_MS = 15 * 60 * 1000;
+
+// Vercel Cron kirim header `Authorization: Bearer <CRON_SECRET>`
+export function isAuthorizedCron(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error('CRON_SECRET is not configured; refusing reset request');
+    return false;
+  }
+
+  const header = request.headers.get('authorization') ?? '';
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(header);
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+export async function findRun(resetType: ResetType, region: string, periodDate: string) {
+  const { data, error } = await supabaseAdmin
+    .from('reset_runs')
+    .select()
+    .eq('reset_type', resetType)
+    .eq('region', region)
+    .eq('period_date', periodDate)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as ResetRun | null) ?? null;
+}
+
+async function claimRun(resetType: ResetType, region: string, periodDate: string) {
+  const { data, error } = await supabaseAdmin
+    .from('reset_runs')
+    .insert({ reset_type: resetType, region, period_date: periodDate })
+    .select()
+    .single();
+
+  if (!error) {
+    return { claimed: true as const, run: data as ResetRun };
+  }
+
+  // 23505 = unique_violation: periode ini sudah pernah jalan
+  if (error.code !== '23505') {
+    throw error;
+  }
+
+  const run = await findRun(resetType, region, periodDate);
+  if (!run) {
+    throw new Error('reset_runs row disappeared after unique violation');
+  }
+  const stale = run.status === 'running' && Date.parse(run.started_at) < Date.now() - STALE_RUN_MS;
+  if (run.status !== 'failed' && !stale) {
+    return { claimed: false as const, run };
+  }
+
+  // run sebelumnya gagal / macet: ambil alih lagi. status + started_at ikut dicek,
+  // jadi cuma satu pemanggil yang menang
+  const { data: retried, error: retryError } = await supabaseAdmin
+    .from('reset_runs')
+    .update({ status: 'running', error: null, started_at: new Date().toISOString(), finished_at: null })
+    .eq('id', run.id)
+    .eq('status', run.status)
+    .eq('started_at', run.started_at)
+    .select()
+    .maybeSingle();
+  if (retryError) throw retryError;
+
+  return retried ? { claimed: true as const, run: retried as ResetRun } : { claimed: false as const, run };
+}
+
+/**
+ * Jalankan reset sekali per (resetType, region, periodDate). Step yang sudah sukses
+ * dicatat di steps_done, jadi retry setelah gagal cuma melanjutkan sisanya.
+ */
+export async function runResetOnce(
+  resetType: ResetType,
+  region: string,
+  periodDate: string,
+  steps: ResetStep[]
+): Promise<ResetOutcome> {
+  let claim: Awaited<ReturnType<typeof claimRun>>;
+  try {
+    claim = await claimRun(resetType, region, periodDate);
+  } catch (error) {
+    console.error('reset_runs claim failed', error);
+    const message = error instanceof Error ? error.message : 'Failed to claim reset run';
+    return { ok: false, replayed: false, step: null, error: message, run: null };
+  }
+
+  if (!claim.claimed) {
+    const { run } = claim;
+    if (run.status === 'succeeded') {
+      return { ok: true, replayed: true, run };
+    }
+    return {
+      ok: false,
+      replayed: true,
+      step: null,
+      error: run.status === 'running' ? 'Reset is already running for this period' : run.error ?? 'Reset failed',
+      run,
+    };
+  }
+
+  let run = claim.run;
+  const stepsDone = [...run.steps_done];
+  const result: Record<string, unknown> = { ...(run.result ?? {}) };
+
+  for (const step of steps) {
+    if (stepsDone.includes(step.name)) continue;
+
+    try {
+      result[step.name] = (await step.run()) ?? null;
+      stepsDone.push(step.name);
+      const { error: ledgerError } = await supabaseAdmin
+        .from('reset_runs')
+        .update({ steps_done: stepsDone, result })
+        .eq('id', run.id);
+      // step sudah jalan tapi belum tercatat: berhenti di sini, dicatat lagi bersama status failed di bawah
+      if (ledgerError) throw ledgerError;
+    } catch (error) {
+      console.error(`${resetType} reset step ${step.name} failed for region ${region}`, error);
+      // error PostgREST bukan instance Error
+      const message =
+        error instanceof Error ? error.message : ((error as { message?: string } | null)?.message ?? String(error));
+      const { data, error: failError } = await supabaseAdmin
+        .from('reset_runs')
+        .update({
+          status: 'failed',
+          error: message,
+          steps_done: stepsDone,
+          result,
+          finished_at: new Date().toISOString(),
+        })
+        .eq('id', run.id)
+        .select()
+        .single();
+      if (failError) console.error('reset_runs failure write failed', failError);
+      return { ok: false, replayed: false, step: step.name, error: message, run: (data as ResetRun) ?? run };
+    }
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('reset_runs')
+    .update({ status: 'succeeded', finished_at: new Date().toISOString() })
+    .eq('id', run.id)
+    .select()
+    .single();
+  if (error) {
+    console.error('reset_runs finalize failed', error);
+  } else {
+    run = data as ResetRun;
+  }
+
+  return { ok: true, replayed: false, run };
+}
@@ -0,0 +1,4 @@
+// cuma izinkan redirect ke path internal (hindari open redirect lewat ?next=)
+export function safeNextPath(value: string | null | undefined) {
+  return value && value.startsWith('/') && !value.startsWith('//') ? value : '/';
+}
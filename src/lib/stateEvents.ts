@@ -0,0 +1,42 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { TaskValue } from '@/lib/tasks';
+
+// Audit trail per field dari trigger daily_state (lihat migration state_events).
+
+export type StateEvent = {
+  id: number;
+  character_id: string;
+  state_date: string;
+  // key task katalog, golden_active atau golden_started_at
+  field: string;
+  old_value: TaskValue;
+  new_value: TaskValue;
+  // null = reset otomatis (service role)
+  actor: string | null;
+  device: string | null;
+  created_at: string;
+};
+
+export const STATE_EVENT_COLUMNS =
+  'id, character_id, state_date, field, old_value, new_value, actor, device, created_at';
+
+export const STATE_EVENTS_PAGE_SIZE = 100;
+
+/**
+ * Event satu karakter, terbaru dulu. Paging pakai keyset di id (`before` = id terakhir
+ * halaman sebelumnya) supaya event baru yang masuk tidak menggeser halaman.
+ */
+export async function fetchStateEvents(
+  supabase: SupabaseClient,
+  characterId: string,
+  options: { start?: string; end?: string; before?: number } = {}
+): Promise<StateEvent[]> {
+  let query = supabase.from('state_events').select(STATE_EVENT_COLUMNS).eq('character_id', characterId);
+  if (options.start) query = query.gte('state_date', options.start);
+  if (options.end) query = query.lte('state_date', options.end);
+  if (options.before !== undefined) query = query.lt('id', options.before);
+
+  const { data, error } = await query.order('id', { ascending: false }).limit(STATE_EVENTS_PAGE_SIZE);
+  if (error) throw error;
+  return (data as StateEvent[] | null) ?? [];
+}
@@ -1,4 +1,5 @@
-import { createClient } from '@supabase/supabase-js';
+import { createBrowserClient } from '@supabase/ssr';
+import { deviceLabel } from '@/lib/device';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -7,4 +8,10 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase anonymous client environment variables.');
 }
 
-export const supabaseClient = createClient(supabaseUrl, supabaseAnonKey);
+const device = deviceLabel();
+
+// session disimpan di cookie supaya bisa dibaca server component & middleware;
+// x-device dibaca trigger audit state_events
+export const supabaseClient = createBrowserClient(supabaseUrl, supabaseAnonKey, {
+  global: { headers: device ? { 'x-device': device } : {} },
+});
@@ -0,0 +1,38 @@
+import { cookies } from 'next/headers';
+import { createServerClient } from '@supabase/ssr';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+if (!supabaseUrl || !supabaseAnonKey) {
+  throw new Error('Missing Supabase anonymous client environment variables.');
+}
+
+// Client per-request untuk server component & route handler.
+// Pakai anon key + cookie session user, jadi RLS tetap berlaku.
+export async function createSupabaseServerClient() {
+  const cookieStore = await cookies();
+
+  return createServerClient(supabaseUrl!, supabaseAnonKey!, {
+    cookies: {
+      getAll() {
+        return cookieStore.getAll();
+      },
+      setAll(cookiesToSet) {
+        try {
+          cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options));
+        } catch {
+          // dipanggil dari server component (read-only); refresh session ditangani middleware
+        }
+      },
+    },
+  });
+}
+
+export async function getSessionUser() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  return { supabase, user };
+}
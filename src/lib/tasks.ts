@@ -0,0 +1,89 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// nilai task disimpan sebagai json scalar di daily_state.tasks / history_log.tasks
+export type TaskValue = string | number | boolean | null;
+export type TaskValues = Record<string, TaskValue>;
+
+export type TaskOption = {
+  value: TaskValue;
+  label: string;
+};
+
+export type ResetCadence = 'daily' | 'weekly' | 'none';
+
+export type TaskDefinition = {
+  key: string;
+  label: string;
+  options: TaskOption[];
+  reset_cadence: ResetCadence;
+  default_value: TaskValue;
+  // nilai yang dianggap selesai, null kalau task tidak punya status selesai
+  done_value: TaskValue;
+  sort_order: number;
+};
+
+export async function fetchTaskDefinitions(supabase: SupabaseClient): Promise<TaskDefinition[]> {
+  const { data, error } = await supabase
+    .from('task_definitions')
+    .select('key, label, options, reset_cadence, default_value, done_value, sort_order')
+    .order('sort_order', { ascending: true })
+    .order('key', { ascending: true });
+
+  if (error) {
+    console.error('Failed to fetch task_definitions', {
+      message: error.message,
+      details: error.details,
+      hint: error.hint,
+      code: error.code,
+    });
+    return [];
+  }
+
+  return (data as TaskDefinition[]) ?? [];
+}
+
+export function taskValueOf(definition: TaskDefinition, values: TaskValues | null | undefined): TaskValue {
+  const value = values?.[definition.key];
+  return value === undefined || value === null ? definition.default_value : value;
+}
+
+// <select> cuma kenal string, jadi value option di-encode sebagai JSON
+export function encodeTaskValue(value: TaskValue) {
+  return JSON.stringify(value);
+}
+
+export function decodeTaskValue(definition: TaskDefinition, encoded: string): TaskValue {
+  const option = definition.options.find((o) => encodeTaskValue(o.value) === encoded);
+  return option ? option.value : definition.default_value;
+}
+
+export function optionLabel(definition: TaskDefinition, value: TaskValue) {
+  const option = definition.options.find((o) => o.value === value);
+  return option ? option.label : value === null || value === undefined ? '--' : String(value);
+}
+
+export function defaultTaskValues(definitions: TaskDefinition[]): TaskValues {
+  return Object.fromEntries(definitions.map((definition) => [definition.key, definition.default_value]));
+}
+
+/**
+ * Pecah kolom `tasks` jsonb jadi kolom biasa (urut katalog), untuk tabel history & export.
+ * Key yang sudah tidak ada di katalog tetap ikut di belakang supaya data lama tidak hilang.
+ */
+export function flattenTaskColumns<T extends { tasks?: unknown }>(
+  row: T,
+  definitions: TaskDefinition[]
+): Omit<T, 'tasks'> & TaskValues {
+  const { tasks, ...rest } = row;
+  const values = (tasks ?? {}) as TaskValues;
+  const flat: TaskValues = {};
+
+  definitions.forEach((definition) => {
+    flat[definition.key] = values[definition.key] ?? null;
+  });
+  Object.keys(values).forEach((key) => {
+    if (!(key in flat)) flat[key] = values[key];
+  });
+
+  return { ...rest, ...flat } as Omit<T, 'tasks'> & TaskValues;
+}
@@ -0,0 +1,111 @@
+// Pipeline write per karakter: edit yang datang berdekatan digabung (debounce) lalu dikirim
+// sebagai satu batch. Semua pengiriman dijalankan berurutan (satu request pada satu waktu),
+// jadi revision hasil write sebelumnya selalu sudah dipakai write berikutnya.
+
+type PipelineOptions<T> = {
+  delayMs: number;
+  // gabungkan edit baru `next` ke edit yang masih menunggu `current`
+  merge: (current: T, next: T) => T;
+  send: (batch: Map<string, T>) => Promise<void>;
+  // dipanggil tiap kali isi antrian / status kirim berubah
+  onChange?: () => void;
+};
+
+export class WritePipeline<T> {
+  private dirty = new Map<string, T>();
+  private inFlight = new Set<string>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private chain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: PipelineOptions<T>) {}
+
+  /** Tambah edit untuk `key`, kirim setelah `delayMs` tanpa edit baru. */
+  push(key: string, entry: T) {
+    const current = this.dirty.get(key);
+    this.dirty.set(key, current === undefined ? entry : this.options.merge(current, entry));
+    this.schedule();
+    this.options.onChange?.();
+  }
+
+  /** Kembalikan edit yang batal terkirim ke antrian, di bawah edit yang masuk sesudahnya. */
+  requeue(key: string, entry: T) {
+    const newer = this.dirty.get(key);
+    this.dirty.set(key, newer === undefined ? entry : this.options.merge(entry, newer));
+    this.schedule();
+    this.options.onChange?.();
+  }
+
+  /** Ambil (dan hapus) edit yang masih menunggu untuk `keys`, mis. untuk digabung ke bulk write. */
+  take(keys: string[]) {
+    const taken = new Map<string, T>();
+    keys.forEach((key) => {
+      const entry = this.dirty.get(key);
+      if (entry !== undefined) {
+        taken.set(key, entry);
+        this.dirty.delete(key);
+      }
+    });
+    if (taken.size > 0) this.options.onChange?.();
+    return taken;
+  }
+
+  /** Key yang masih punya edit menunggu atau sedang dikirim. */
+  isBusy(key: string) {
+    return this.dirty.has(key) || this.inFlight.has(key);
+  }
+
+  /** Kirim semua edit yang menunggu sekarang juga (tanpa menunggu debounce). */
+  flush() {
+    this.clearTimer();
+    return this.run(async () => {
+      if (this.dirty.size === 0) return;
+      const batch = new Map(this.dirty);
+      this.dirty.clear();
+      await this.sendTracked(batch);
+    });
+  }
+
+  /** Kirim `batch` langsung sebagai satu request, tetap berurutan dengan pengiriman lain. */
+  sendNow(batch: Map<string, T>) {
+    return this.run(() => this.sendTracked(batch));
+  }
+
+  /** Jalankan `task` di antrian yang sama dengan pengiriman (mis. replay antrian offline). */
+  run(task: () => Promise<void>) {
+    const next = this.chain.then(task).catch((error) => {
+      console.error('Write pipeline task failed', error);
+    });
+    this.chain = next;
+    return next;
+  }
+
+  dispose() {
+    this.clearTimer();
+  }
+
+  private async sendTracked(batch: Map<string, T>) {
+    batch.forEach((_, key) => this.inFlight.add(key));
+    this.options.onChange?.();
+    try {
+      await this.options.send(batch);
+    } finally {
+      batch.forEach((_, key) => this.inFlight.delete(key));
+      this.options.onChange?.();
+    }
+  }
+
+  private schedule() {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, this.options.delayMs);
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,27 @@
+-- Semua data sekarang milik user Supabase Auth (auth.uid()).
+-- Client pakai anon key + session, jadi akses dibatasi lewat RLS.
+
+alter table public.characters enable row level security;
+alter table public.daily_state enable row level security;
+alter table public.history_log enable row level security;
+
+create policy "characters: owner access" on public.characters
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "daily_state: owner access" on public.daily_state
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.characters c
+      where c.id = character_id and c.user_id = auth.uid()
+    )
+  );
+
+-- history_log cuma ditulis oleh history_snapshot_rpc (service role)
+create policy "history_log: owner read" on public.history_log
+  for select to authenticated
+  using (user_id = auth.uid());
@@ -0,0 +1,19 @@
+-- Ledger untuk route cron /api/reset/*: satu baris per (jenis reset, tanggal WIB).
+-- Panggilan kedua di periode yang sama mengembalikan hasil run sebelumnya.
+
+create table public.reset_runs (
+  id bigint generated always as identity primary key,
+  reset_type text not null check (reset_type in ('daily', 'weekly')),
+  period_date date not null,
+  status text not null default 'running' check (status in ('running', 'succeeded', 'failed')),
+  -- step yang sudah sukses, supaya retry setelah gagal tidak snapshot dua kali
+  steps_done text[] not null default '{}',
+  result jsonb,
+  error text,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  unique (reset_type, period_date)
+);
+
+-- cuma diakses service role (route cron), tanpa policy untuk authenticated
+alter table public.reset_runs enable row level security;
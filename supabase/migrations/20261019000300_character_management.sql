@@ -0,0 +1,114 @@
+-- Urutan manual + arsip karakter.
+-- Karakter yang diarsip hilang dari daily board & reset, tapi history_log-nya tetap ada.
+
+alter table public.characters
+  add column sort_order integer not null default 0,
+  add column archived_at timestamptz;
+
+-- urutan awal = urutan alfabet lama per user
+update public.characters c
+set sort_order = ranked.position
+from (
+  select id, row_number() over (partition by user_id order by name) as position
+  from public.characters
+) ranked
+where ranked.id = c.id;
+
+create index characters_user_sort_idx on public.characters (user_id, sort_order) where archived_at is null;
+
+-- RPC reset & snapshot: lewati karakter yang diarsip
+
+drop function if exists public.history_snapshot_rpc();
+create function public.history_snapshot_rpc()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inserted integer;
+begin
+  insert into history_log (
+    user_id, character_id, character_name, snapshot_date,
+    daily_status, wtp, sdn_outskirts, sdn_core,
+    golden_active, golden_started_at, golden_expired_at
+  )
+  select
+    ds.user_id, ds.character_id, c.name, (now() at time zone 'Asia/Jakarta')::date,
+    ds.daily_status, ds.wtp, ds.sdn_outskirts, ds.sdn_core,
+    ds.golden_active, ds.golden_started_at, ds.golden_started_at + interval '7 days'
+  from daily_state ds
+  join characters c on c.id = ds.character_id
+  where c.archived_at is null;
+
+  get diagnostics inserted = row_count;
+  return inserted;
+end;
+$$;
+
+drop function if exists public.daily_reset_rpc();
+create function public.daily_reset_rpc()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  updated integer;
+begin
+  update daily_state ds
+  set
+    daily_status = 'belum',
+    golden_active = case when ds.golden_started_at <= now() - interval '7 days' then false else ds.golden_active end,
+    golden_started_at = case when ds.golden_started_at <= now() - interval '7 days' then null else ds.golden_started_at end
+  from characters c
+  where c.id = ds.character_id
+    and c.archived_at is null;
+
+  get diagnostics updated = row_count;
+  return updated;
+end;
+$$;
+
+drop function if exists public.weekly_reset_rpc();
+create function public.weekly_reset_rpc()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  updated integer;
+begin
+  update daily_state ds
+  set wtp = false, sdn_outskirts = false, sdn_core = 'belum'
+  from characters c
+  where c.id = ds.character_id
+    and c.archived_at is null;
+
+  get diagnostics updated = row_count;
+  return updated;
+end;
+$$;
+
+revoke execute on function public.history_snapshot_rpc() from public, anon, authenticated;
+revoke execute on function public.daily_reset_rpc() from public, anon, authenticated;
+revoke execute on function public.weekly_reset_rpc() from public, anon, authenticated;
+
+-- urutan baru dalam satu transaksi: p_ids = karakter aktif sesuai urutan board, sort_order jadi 1..n.
+-- security invoker, jadi RLS characters tetap membatasi ke karakter milik pemanggil
+create or replace function public.reorder_characters(p_ids uuid[])
+returns void
+language sql
+security invoker
+set search_path = public
+as $$
+  update characters c
+  set sort_order = ordered.position::integer
+  from unnest(p_ids) with ordinality as ordered(id, position)
+  where c.id = ordered.id
+    and c.sort_order is distinct from ordered.position::integer;
+$$;
+
+revoke execute on function public.reorder_characters(uuid[]) from public, anon;
+grant execute on function public.reorder_characters(uuid[]) to authenticated;
@@ -0,0 +1,152 @@
+-- Katalog task: kolom daily board, snapshot & export dibaca dari sini,
+-- jadi nest / weekly quest baru cukup insert baris baru tanpa migration.
+-- Nilai task per karakter disimpan generik di daily_state.tasks / history_log.tasks (jsonb key -> value).
+-- Golden Goose tetap kolom sendiri karena punya waktu mulai & expiry.
+
+create table public.task_definitions (
+  key text primary key check (key ~ '^[a-z][a-z0-9_]*$'),
+  label text not null,
+  -- [{ "value": <json scalar>, "label": "..." }], urutan = urutan di dropdown
+  options jsonb not null check (jsonb_typeof(options) = 'array' and jsonb_array_length(options) > 0),
+  reset_cadence text not null check (reset_cadence in ('daily', 'weekly', 'none')),
+  default_value jsonb not null,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+alter table public.task_definitions enable row level security;
+
+create policy "task_definitions: read" on public.task_definitions
+  for select to authenticated
+  using (true);
+
+-- nilai yang tersimpan sekarang dipertahankan apa adanya (WTP & Outskirts masih boolean)
+insert into public.task_definitions (key, label, options, reset_cadence, default_value, sort_order) values
+  ('daily_status', 'Daily',
+    '[{"value":"belum","label":"Not Started"},{"value":"in_progress","label":"In Progress"},{"value":"udah","label":"Completed"}]',
+    'daily', '"belum"', 1),
+  ('wtp', 'WTP',
+    '[{"value":false,"label":"Locked"},{"value":true,"label":"Cleared"}]',
+    'weekly', 'false', 2),
+  ('sdn_outskirts', 'SDN Outskirts',
+    '[{"value":false,"label":"Not Started"},{"value":true,"label":"Cleared"}]',
+    'weekly', 'false', 3),
+  ('sdn_core', 'SDN Core',
+    '[{"value":"belum","label":"Not Started"},{"value":"udah","label":"Cleared"},{"value":"skip","label":"Skipped"}]',
+    'weekly', '"belum"', 4);
+
+-- daily_state: kolom per task -> tasks jsonb
+
+alter table public.daily_state add column tasks jsonb not null default '{}';
+
+update public.daily_state
+set tasks = jsonb_strip_nulls(jsonb_build_object(
+  'daily_status', daily_status,
+  'wtp', wtp,
+  'sdn_outskirts', sdn_outskirts,
+  'sdn_core', sdn_core
+));
+
+alter table public.daily_state
+  drop column daily_status,
+  drop column wtp,
+  drop column sdn_outskirts,
+  drop column sdn_core;
+
+-- history_log: sama, supaya snapshot ikut katalog
+
+alter table public.history_log add column tasks jsonb not null default '{}';
+
+update public.history_log
+set tasks = jsonb_strip_nulls(jsonb_build_object(
+  'daily_status', daily_status,
+  'wtp', wtp,
+  'sdn_outskirts', sdn_outskirts,
+  'sdn_core', sdn_core
+));
+
+alter table public.history_log
+  drop column daily_status,
+  drop column wtp,
+  drop column sdn_outskirts,
+  drop column sdn_core;
+
+-- default per cadence, dipakai reset harian / mingguan
+create or replace function public.task_defaults(p_cadence text)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(jsonb_object_agg(key, default_value), '{}'::jsonb)
+  from task_definitions
+  where reset_cadence = p_cadence;
+$$;
+
+create or replace function public.history_snapshot_rpc()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inserted integer;
+begin
+  insert into history_log (
+    user_id, character_id, character_name, snapshot_date, tasks,
+    golden_active, golden_started_at, golden_expired_at
+  )
+  select
+    ds.user_id, ds.character_id, c.name, (now() at time zone 'Asia/Jakarta')::date, ds.tasks,
+    ds.golden_active, ds.golden_started_at, ds.golden_started_at + interval '7 days'
+  from daily_state ds
+  join characters c on c.id = ds.character_id
+  where c.archived_at is null;
+
+  get diagnostics inserted = row_count;
+  return inserted;
+end;
+$$;
+
+create or replace function public.daily_reset_rpc()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  updated integer;
+begin
+  update daily_state ds
+  set
+    tasks = ds.tasks || task_defaults('daily'),
+    golden_active = case when ds.golden_started_at <= now() - interval '7 days' then false else ds.golden_active end,
+    golden_started_at = case when ds.golden_started_at <= now() - interval '7 days' then null else ds.golden_started_at end
+  from characters c
+  where c.id = ds.character_id
+    and c.archived_at is null;
+
+  get diagnostics updated = row_count;
+  return updated;
+end;
+$$;
+
+create or replace function public.weekly_reset_rpc()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  updated integer;
+begin
+  update daily_state ds
+  set tasks = ds.tasks || task_defaults('weekly')
+  from characters c
+  where c.id = ds.character_id
+    and c.archived_at is null;
+
+  get diagnostics updated = row_count;
+  return updated;
+end;
+$$;
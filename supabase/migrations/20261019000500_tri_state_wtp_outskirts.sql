@@ -0,0 +1,64 @@
+-- WTP & SDN Outskirts sebelumnya boolean, jadi "Available" / "Skipped" hilang setelah reload.
+-- Sekarang jadi enum 3 state di katalog, dan nilai task divalidasi terhadap options katalog.
+
+update public.task_definitions
+set
+  options = '[{"value":"locked","label":"Locked"},{"value":"available","label":"Available"},{"value":"cleared","label":"Cleared"}]',
+  default_value = '"locked"'
+where key = 'wtp';
+
+update public.task_definitions
+set
+  options = '[{"value":"belum","label":"Not Started"},{"value":"udah","label":"Cleared"},{"value":"skip","label":"Skipped"}]',
+  default_value = '"belum"'
+where key = 'sdn_outskirts';
+
+-- konversi baris boolean lama: true -> cleared / udah, false -> locked / belum
+
+update public.daily_state
+set tasks = tasks || jsonb_build_object('wtp', case when (tasks->>'wtp')::boolean then 'cleared' else 'locked' end)
+where jsonb_typeof(tasks->'wtp') = 'boolean';
+
+update public.daily_state
+set tasks = tasks || jsonb_build_object('sdn_outskirts', case when (tasks->>'sdn_outskirts')::boolean then 'udah' else 'belum' end)
+where jsonb_typeof(tasks->'sdn_outskirts') = 'boolean';
+
+update public.history_log
+set tasks = tasks || jsonb_build_object('wtp', case when (tasks->>'wtp')::boolean then 'cleared' else 'locked' end)
+where jsonb_typeof(tasks->'wtp') = 'boolean';
+
+update public.history_log
+set tasks = tasks || jsonb_build_object('sdn_outskirts', case when (tasks->>'sdn_outskirts')::boolean then 'udah' else 'belum' end)
+where jsonb_typeof(tasks->'sdn_outskirts') = 'boolean';
+
+-- tiap nilai di tasks harus salah satu value di options katalog (key tak dikenal ditolak juga)
+create or replace function public.validate_task_values()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  entry record;
+  definition task_definitions%rowtype;
+begin
+  for entry in select key, value from jsonb_each(coalesce(new.tasks, '{}'::jsonb)) loop
+    select * into definition from task_definitions where key = entry.key;
+    if not found then
+      raise exception 'Unknown task key: %', entry.key using errcode = '22023';
+    end if;
+    if entry.value <> 'null'::jsonb
+      and not exists (
+        select 1 from jsonb_array_elements(definition.options) option
+        where option->'value' = entry.value
+      ) then
+      raise exception 'Invalid value % for task %', entry.value, entry.key using errcode = '22023';
+    end if;
+  end loop;
+  return new;
+end;
+$$;
+
+-- history_log sengaja tidak divalidasi: snapshot lama boleh berisi key yang sudah dihapus dari katalog
+create trigger daily_state_validate_tasks
+  before insert or update of tasks on public.daily_state
+  for each row execute function public.validate_task_values();
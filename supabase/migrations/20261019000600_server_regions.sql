@@ -0,0 +1,157 @@
+-- Region server per user: menentukan zona waktu, jam daily reset, dan hari weekly reset.
+-- daily_state.date, snapshot, dan filter history mengikuti "game day" region ini.
+
+create table public.server_regions (
+  key text primary key check (key ~ '^[a-z][a-z0-9_]*$'),
+  label text not null,
+  time_zone text not null,
+  reset_hour smallint not null check (reset_hour between 0 and 23),
+  weekly_reset_day smallint not null check (weekly_reset_day between 0 and 6) -- 0 = Minggu
+);
+
+alter table public.server_regions enable row level security;
+
+create policy "server_regions: read" on public.server_regions
+  for select to authenticated
+  using (true);
+
+-- sesuaikan kalau jadwal server berubah
+insert into public.server_regions (key, label, time_zone, reset_hour, weekly_reset_day) values
+  ('sea', 'SEA', 'Asia/Jakarta', 8, 6),
+  ('na', 'NA', 'America/New_York', 4, 3),
+  ('eu', 'EU', 'Europe/Berlin', 6, 3),
+  ('cn', 'CN', 'Asia/Shanghai', 6, 4),
+  ('kr', 'KR', 'Asia/Seoul', 6, 4);
+
+create table public.user_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  region text not null default 'sea' references public.server_regions (key),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_settings enable row level security;
+
+create policy "user_settings: owner access" on public.user_settings
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create or replace function public.user_region(p_user_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select region from user_settings where user_id = p_user_id), 'sea');
+$$;
+
+create or replace function public.game_day(p_region text, p_at timestamptz default now())
+returns date
+language sql
+stable
+set search_path = public
+as $$
+  select ((p_at at time zone r.time_zone) - make_interval(hours => r.reset_hour))::date
+  from server_regions r
+  where r.key = p_region;
+$$;
+
+-- ledger reset sekarang per region
+alter table public.reset_runs add column region text not null default 'sea' references public.server_regions (key);
+alter table public.reset_runs drop constraint reset_runs_reset_type_period_date_key;
+alter table public.reset_runs add constraint reset_runs_type_region_period_key unique (reset_type, region, period_date);
+
+-- RPC reset & snapshot: per region, pakai baris daily_state terbaru tiap karakter
+
+drop function if exists public.history_snapshot_rpc();
+create function public.history_snapshot_rpc(p_region text, p_snapshot_date date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inserted integer;
+begin
+  insert into history_log (
+    user_id, character_id, character_name, snapshot_date, tasks,
+    golden_active, golden_started_at, golden_expired_at
+  )
+  select
+    ds.user_id, ds.character_id, c.name, p_snapshot_date, ds.tasks,
+    ds.golden_active, ds.golden_started_at, ds.golden_started_at + interval '7 days'
+  from (
+    select distinct on (character_id) *
+    from daily_state
+    where date <= p_snapshot_date
+    order by character_id, date desc
+  ) ds
+  join characters c on c.id = ds.character_id
+  where c.archived_at is null
+    and user_region(ds.user_id) = p_region;
+
+  get diagnostics inserted = row_count;
+  return inserted;
+end;
+$$;
+
+drop function if exists public.daily_reset_rpc();
+create function public.daily_reset_rpc(p_region text, p_game_day date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  updated integer;
+begin
+  -- geser baris terbaru tiap karakter ke game day baru (kalau belum ada baris untuk hari itu)
+  update daily_state ds
+  set
+    date = p_game_day,
+    tasks = ds.tasks || task_defaults('daily'),
+    golden_active = case when ds.golden_started_at <= now() - interval '7 days' then false else ds.golden_active end,
+    golden_started_at = case when ds.golden_started_at <= now() - interval '7 days' then null else ds.golden_started_at end
+  from characters c
+  where c.id = ds.character_id
+    and c.archived_at is null
+    and user_region(ds.user_id) = p_region
+    and ds.date < p_game_day
+    and ds.date = (select max(latest.date) from daily_state latest where latest.character_id = ds.character_id)
+    and not exists (
+      select 1 from daily_state today
+      where today.character_id = ds.character_id and today.date = p_game_day
+    );
+
+  get diagnostics updated = row_count;
+  return updated;
+end;
+$$;
+
+drop function if exists public.weekly_reset_rpc();
+create function public.weekly_reset_rpc(p_region text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  updated integer;
+begin
+  update daily_state ds
+  set tasks = ds.tasks || task_defaults('weekly')
+  from characters c
+  where c.id = ds.character_id
+    and c.archived_at is null
+    and user_region(ds.user_id) = p_region
+    and ds.date = (select max(latest.date) from daily_state latest where latest.character_id = ds.character_id);
+
+  get diagnostics updated = row_count;
+  return updated;
+end;
+$$;
+
+revoke execute on function public.history_snapshot_rpc(text, date) from public, anon, authenticated;
+revoke execute on function public.daily_reset_rpc(text, date) from public, anon, authenticated;
+revoke execute on function public.weekly_reset_rpc(text) from public, anon, authenticated;
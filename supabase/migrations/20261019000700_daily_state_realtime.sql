@@ -0,0 +1,3 @@
+-- Realtime untuk daily board: perubahan dari tab / device lain langsung masuk.
+-- RLS daily_state tetap berlaku untuk event yang dikirim ke client.
+alter publication supabase_realtime add table public.daily_state;
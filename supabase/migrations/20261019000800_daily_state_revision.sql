@@ -0,0 +1,92 @@
+-- Optimistic concurrency untuk daily_state: tiap write membawa revision yang jadi dasarnya,
+-- write yang basi (tab / teammate lain sudah menyimpan duluan) ditolak server.
+
+alter table public.daily_state
+  add column if not exists updated_at timestamptz not null default now(),
+  add column revision integer not null default 0;
+
+create or replace function public.bump_daily_state_revision()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.revision := old.revision + 1;
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger daily_state_bump_revision
+  before update on public.daily_state
+  for each row execute function public.bump_daily_state_revision();
+
+-- p_rows: [{ character_id, date, base_revision, tasks?, golden_active?, golden_started_at? }]
+-- base_revision = revision baris (character_id, date) yang dilihat client, null kalau client belum punya baris hari itu.
+-- tasks di-merge ke nilai yang ada; golden_* cuma diubah kalau key-nya dikirim.
+-- Semua baris disimpan dalam satu transaksi: satu yang basi -> semuanya batal (errcode 40001).
+create or replace function public.save_daily_states(p_rows jsonb)
+returns setof public.daily_state
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  item jsonb;
+  current_row daily_state%rowtype;
+  latest_row daily_state%rowtype;
+  base integer;
+begin
+  for item in select value from jsonb_array_elements(p_rows) loop
+    base := (item->>'base_revision')::integer;
+
+    select * into current_row
+    from daily_state
+    where character_id = (item->>'character_id')::uuid
+      and date = (item->>'date')::date
+    for update;
+
+    if found then
+      if base is null or current_row.revision <> base then
+        raise exception 'stale_write'
+          using errcode = '40001', detail = item->>'character_id', hint = 'Reload the row and retry';
+      end if;
+
+      return query
+      update daily_state
+      set
+        tasks = daily_state.tasks || coalesce(item->'tasks', '{}'::jsonb),
+        golden_active = case when item ? 'golden_active' then (item->>'golden_active')::boolean else daily_state.golden_active end,
+        golden_started_at = case when item ? 'golden_started_at' then (item->>'golden_started_at')::timestamptz else daily_state.golden_started_at end
+      where character_id = current_row.character_id
+        and date = current_row.date
+      returning *;
+    else
+      if base is not null then
+        raise exception 'stale_write'
+          using errcode = '40001', detail = item->>'character_id', hint = 'Reload the row and retry';
+      end if;
+
+      -- belum ada baris untuk game day ini: lanjutkan dari baris terakhir karakter
+      select * into latest_row
+      from daily_state
+      where character_id = (item->>'character_id')::uuid
+      order by date desc
+      limit 1;
+
+      return query
+      insert into daily_state (user_id, character_id, date, tasks, golden_active, golden_started_at)
+      values (
+        auth.uid(),
+        (item->>'character_id')::uuid,
+        (item->>'date')::date,
+        coalesce(latest_row.tasks, '{}'::jsonb) || coalesce(item->'tasks', '{}'::jsonb),
+        case when item ? 'golden_active' then (item->>'golden_active')::boolean else coalesce(latest_row.golden_active, false) end,
+        case when item ? 'golden_started_at' then (item->>'golden_started_at')::timestamptz else latest_row.golden_started_at end
+      )
+      returning *;
+    end if;
+  end loop;
+end;
+$$;
+
+grant execute on function public.save_daily_states(jsonb) to authenticated;
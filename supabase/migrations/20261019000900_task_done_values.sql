@@ -0,0 +1,6 @@
+-- Nilai "selesai" per task: dipakai aksi "tandai semua selesai" di board
+-- (null = task tanpa status selesai, dilewati).
+alter table public.task_definitions add column done_value jsonb;
+
+update public.task_definitions set done_value = '"udah"' where key in ('daily_status', 'sdn_outskirts', 'sdn_core');
+update public.task_definitions set done_value = '"cleared"' where key = 'wtp';
@@ -0,0 +1,127 @@
+-- Import CSV ke history_log: satu snapshot per karakter per tanggal, supaya import ulang
+-- file yang sama meng-update baris lama, bukan menduplikasi.
+
+-- index unik di bawah butuh satu baris per karakter per tanggal. Duplikat lama tidak dihapus
+-- otomatis (tidak ada cara aman memilih baris yang benar): migration gagal dan menampilkan
+-- daftarnya, bereskan manual dulu lalu jalankan ulang.
+do $$
+declare
+  duplicates text;
+begin
+  select string_agg(format('%s @ %s (%s baris)', character_id, snapshot_date, total), ', '
+                    order by character_id, snapshot_date)
+  into duplicates
+  from (
+    select character_id, snapshot_date, count(*) as total
+    from public.history_log
+    group by character_id, snapshot_date
+    having count(*) > 1
+  ) d;
+
+  if duplicates is not null then
+    raise exception 'history_log berisi snapshot duplikat (character_id @ snapshot_date): %', duplicates;
+  end if;
+end;
+$$;
+
+create unique index history_log_character_snapshot_key
+  on public.history_log (character_id, snapshot_date);
+
+-- snapshot harian tidak menimpa baris yang sudah ada (mis. hasil import untuk tanggal itu)
+create or replace function public.history_snapshot_rpc(p_region text, p_snapshot_date date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inserted integer;
+begin
+  insert into history_log (
+    user_id, character_id, character_name, snapshot_date, tasks,
+    golden_active, golden_started_at, golden_expired_at
+  )
+  select
+    ds.user_id, ds.character_id, c.name, p_snapshot_date, ds.tasks,
+    ds.golden_active, ds.golden_started_at, ds.golden_started_at + interval '7 days'
+  from (
+    select distinct on (character_id) *
+    from daily_state
+    where date <= p_snapshot_date
+    order by character_id, date desc
+  ) ds
+  join characters c on c.id = ds.character_id
+  where c.archived_at is null
+    and user_region(ds.user_id) = p_region
+  on conflict (character_id, snapshot_date) do nothing;
+
+  get diagnostics inserted = row_count;
+  return inserted;
+end;
+$$;
+
+-- p_rows: [{ character_id, character_name, snapshot_date, tasks, golden_active, golden_started_at, golden_expired_at }]
+-- history_log read-only lewat RLS, jadi tulisnya lewat sini; semua karakter harus milik pemanggil.
+-- Satu transaksi: satu karakter asing -> semua batal.
+create or replace function public.import_history_rows(p_rows jsonb)
+returns table (inserted integer, updated integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+begin
+  if uid is null then
+    raise exception 'not_authenticated' using errcode = '42501';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(p_rows) item
+    left join characters c on c.id = (item->>'character_id')::uuid and c.user_id = uid
+    where c.id is null
+  ) then
+    raise exception 'Unknown character in import' using errcode = '42501';
+  end if;
+
+  return query
+  with upserted as (
+    insert into history_log (
+      user_id, character_id, character_name, snapshot_date, tasks,
+      golden_active, golden_started_at, golden_expired_at
+    )
+    select
+      uid,
+      (item->>'character_id')::uuid,
+      item->>'character_name',
+      (item->>'snapshot_date')::date,
+      coalesce(item->'tasks', '{}'::jsonb),
+      coalesce((item->>'golden_active')::boolean, false),
+      (item->>'golden_started_at')::timestamptz,
+      (item->>'golden_expired_at')::timestamptz
+    from jsonb_array_elements(p_rows) item
+    on conflict (character_id, snapshot_date) do update
+    set
+      character_name = excluded.character_name,
+      -- di-merge: key yang tidak ada di file (sel kosong, key lama di luar katalog) tetap dipertahankan
+      tasks = history_log.tasks || excluded.tasks,
+      golden_active = excluded.golden_active,
+      golden_started_at = excluded.golden_started_at,
+      -- expiry kosong di file: pakai yang lama kalau waktu mulainya sama, selain itu diisi trigger
+      golden_expired_at = coalesce(
+        excluded.golden_expired_at,
+        case when excluded.golden_started_at is not distinct from history_log.golden_started_at
+          then history_log.golden_expired_at end
+      )
+    returning (xmax = 0) as is_insert
+  )
+  select
+    count(*) filter (where is_insert)::integer,
+    count(*) filter (where not is_insert)::integer
+  from upserted;
+end;
+$$;
+
+revoke execute on function public.import_history_rows(jsonb) from public, anon;
+grant execute on function public.import_history_rows(jsonb) to authenticated;
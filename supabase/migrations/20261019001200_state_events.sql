@@ -0,0 +1,93 @@
+-- Audit trail per field untuk daily_state: tiap insert/update mencatat field yang berubah
+-- (nilai lama -> baru, siapa, dari device mana). history_log cuma snapshot akhir hari,
+-- jadi ini satu-satunya jejak perubahan di tengah hari.
+
+create table public.state_events (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  character_id uuid not null references public.characters (id) on delete cascade,
+  -- daily_state.date baris yang berubah
+  state_date date not null,
+  -- key task katalog, golden_active atau golden_started_at
+  field text not null,
+  old_value jsonb,
+  new_value jsonb,
+  -- auth.uid() penulis; null = service role (reset cron)
+  actor uuid,
+  -- header x-device dari browser client, null kalau tidak dikirim
+  device text,
+  created_at timestamptz not null default now()
+);
+
+create index state_events_character_idx on public.state_events (character_id, id desc);
+
+alter table public.state_events enable row level security;
+
+-- cuma dibaca client; baris ditulis trigger di bawah (security definer)
+create policy "state_events: owner read" on public.state_events
+  for select to authenticated
+  using (user_id = auth.uid());
+
+revoke insert, update, delete, truncate on public.state_events from public, anon, authenticated;
+
+create or replace function public.state_events_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- delete lewat cascade (karakter / user dihapus) tetap boleh
+  if tg_op = 'DELETE' and pg_trigger_depth() > 1 then
+    return old;
+  end if;
+  raise exception 'state_events is append-only';
+end;
+$$;
+
+create trigger state_events_append_only
+  before update or delete on public.state_events
+  for each row execute function public.state_events_append_only();
+
+create or replace function public.log_state_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  previous daily_state%rowtype;
+  headers json := nullif(current_setting('request.headers', true), '')::json;
+begin
+  if tg_op = 'UPDATE' then
+    previous := old;
+  else
+    -- baris baru untuk game day ini melanjutkan baris terakhir karakter,
+    -- jadi bandingkan dengan baris itu supaya nilai yang cuma terbawa tidak tercatat
+    select * into previous
+    from daily_state
+    where character_id = new.character_id
+      and date < new.date
+    order by date desc
+    limit 1;
+  end if;
+
+  insert into state_events (user_id, character_id, state_date, field, old_value, new_value, actor, device)
+  select
+    new.user_id, new.character_id, new.date, changes.field, changes.old_value, changes.new_value,
+    auth.uid(), left(headers->>'x-device', 120)
+  from (
+    select keys.key as field, previous.tasks->keys.key as old_value, new.tasks->keys.key as new_value
+    from jsonb_object_keys(coalesce(previous.tasks, '{}'::jsonb) || new.tasks) as keys(key)
+    union all
+    select 'golden_active', to_jsonb(previous.golden_active), to_jsonb(new.golden_active)
+    union all
+    select 'golden_started_at', to_jsonb(previous.golden_started_at), to_jsonb(new.golden_started_at)
+  ) changes
+  where changes.old_value is distinct from changes.new_value;
+
+  return null;
+end;
+$$;
+
+create trigger daily_state_log_events
+  after insert or update on public.daily_state
+  for each row execute function public.log_state_events();
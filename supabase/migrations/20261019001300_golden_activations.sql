@@ -0,0 +1,197 @@
+-- Golden Goose per aktivasi: mulai, durasi yang berlaku saat diaktifkan, expiry, dan cara berakhirnya
+-- (expired / cancelled). daily_state.golden_active + golden_started_at tetap jadi status board;
+-- tabel ini riwayatnya, diisi trigger setiap dua kolom itu berubah.
+
+alter table public.user_settings
+  add column golden_duration_hours integer not null default 168
+    check (golden_duration_hours between 1 and 720);
+
+create or replace function public.user_golden_hours(p_user_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select golden_duration_hours from user_settings where user_id = p_user_id), 168);
+$$;
+
+create table public.golden_activations (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  character_id uuid not null references public.characters (id) on delete cascade,
+  started_at timestamptz not null,
+  duration_hours integer not null check (duration_hours > 0),
+  expires_at timestamptz not null,
+  -- null = masih aktif
+  ended_at timestamptz,
+  end_reason text check (end_reason in ('expired', 'cancelled')),
+  created_at timestamptz not null default now(),
+  unique (character_id, started_at),
+  check ((ended_at is null) = (end_reason is null))
+);
+
+create index golden_activations_user_idx on public.golden_activations (user_id, started_at desc);
+
+alter table public.golden_activations enable row level security;
+
+-- ditulis trigger di bawah (security definer), client cuma baca
+create policy "golden_activations: owner read" on public.golden_activations
+  for select to authenticated
+  using (user_id = auth.uid());
+
+create or replace function public.track_golden_activation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  previous daily_state%rowtype;
+  was_active boolean;
+  is_active boolean;
+  hours integer;
+begin
+  if tg_op = 'UPDATE' then
+    previous := old;
+  else
+    -- baris game day baru melanjutkan baris terakhir karakter (golden ikut terbawa)
+    select * into previous
+    from daily_state
+    where character_id = new.character_id
+      and date < new.date
+    order by date desc
+    limit 1;
+  end if;
+
+  was_active := coalesce(previous.golden_active, false) and previous.golden_started_at is not null;
+  is_active := coalesce(new.golden_active, false) and new.golden_started_at is not null;
+
+  if was_active = is_active and previous.golden_started_at is not distinct from new.golden_started_at then
+    return null;
+  end if;
+
+  -- aktivasi lama berakhir: dimatikan / diganti waktu mulai baru sebelum expiry = cancelled
+  if was_active then
+    update golden_activations
+    set
+      ended_at = least(now(), expires_at),
+      end_reason = case when expires_at <= now() then 'expired' else 'cancelled' end
+    where character_id = new.character_id
+      and started_at = previous.golden_started_at
+      and ended_at is null;
+  end if;
+
+  if is_active then
+    hours := user_golden_hours(new.user_id);
+    -- waktu mulai yang sama (undo, restore) membuka lagi record lama, bukan bikin baru
+    insert into golden_activations (user_id, character_id, started_at, duration_hours, expires_at)
+    values (new.user_id, new.character_id, new.golden_started_at, hours, new.golden_started_at + make_interval(hours => hours))
+    on conflict (character_id, started_at) do update
+      set ended_at = null, end_reason = null
+      where golden_activations.expires_at > now();
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger daily_state_track_golden
+  after insert or update of golden_active, golden_started_at on public.daily_state
+  for each row execute function public.track_golden_activation();
+
+-- Golden yang sedang aktif sekarang dapat record dengan durasi lama (7 hari)
+insert into public.golden_activations (user_id, character_id, started_at, duration_hours, expires_at)
+select ds.user_id, ds.character_id, ds.golden_started_at, 168, ds.golden_started_at + interval '7 days'
+from (
+  select distinct on (character_id) *
+  from public.daily_state
+  order by character_id, date desc
+) ds
+where ds.golden_active and ds.golden_started_at is not null
+on conflict (character_id, started_at) do nothing;
+
+-- sudah lewat expiry? pakai record aktivasinya; tanpa record -> aturan lama 7 hari
+create or replace function public.golden_expired(p_character_id uuid, p_started_at timestamptz)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_started_at is not null and coalesce(
+    (select ga.expires_at <= now() from golden_activations ga
+     where ga.character_id = p_character_id and ga.started_at = p_started_at),
+    p_started_at <= now() - interval '7 days'
+  );
+$$;
+
+create or replace function public.daily_reset_rpc(p_region text, p_game_day date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  updated integer;
+begin
+  -- geser baris terbaru tiap karakter ke game day baru (kalau belum ada baris untuk hari itu);
+  -- golden yang lewat expiry dimatikan, trigger menutup record aktivasinya sebagai expired
+  update daily_state ds
+  set
+    date = p_game_day,
+    tasks = ds.tasks || task_defaults('daily'),
+    golden_active = case when golden_expired(ds.character_id, ds.golden_started_at) then false else ds.golden_active end,
+    golden_started_at = case when golden_expired(ds.character_id, ds.golden_started_at) then null else ds.golden_started_at end
+  from characters c
+  where c.id = ds.character_id
+    and c.archived_at is null
+    and user_region(ds.user_id) = p_region
+    and ds.date < p_game_day
+    and ds.date = (select max(latest.date) from daily_state latest where latest.character_id = ds.character_id)
+    and not exists (
+      select 1 from daily_state today
+      where today.character_id = ds.character_id and today.date = p_game_day
+    );
+
+  get diagnostics updated = row_count;
+  return updated;
+end;
+$$;
+
+create or replace function public.history_snapshot_rpc(p_region text, p_snapshot_date date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inserted integer;
+begin
+  insert into history_log (
+    user_id, character_id, character_name, snapshot_date, tasks,
+    golden_active, golden_started_at, golden_expired_at
+  )
+  select
+    ds.user_id, ds.character_id, c.name, p_snapshot_date, ds.tasks,
+    ds.golden_active, ds.golden_started_at, coalesce(ga.expires_at, ds.golden_started_at + interval '7 days')
+  from (
+    select distinct on (character_id) *
+    from daily_state
+    where date <= p_snapshot_date
+    order by character_id, date desc
+  ) ds
+  join characters c on c.id = ds.character_id
+  left join golden_activations ga
+    on ga.character_id = ds.character_id and ga.started_at = ds.golden_started_at
+  where c.archived_at is null
+    and user_region(ds.user_id) = p_region
+  on conflict (character_id, snapshot_date) do nothing;
+
+  get diagnostics inserted = row_count;
+  return inserted;
+end;
+$$;
+
+revoke execute on function public.history_snapshot_rpc(text, date) from public, anon, authenticated;
+revoke execute on function public.daily_reset_rpc(text, date) from public, anon, authenticated;
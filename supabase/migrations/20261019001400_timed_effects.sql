@@ -0,0 +1,89 @@
+-- Efek berwaktu selain Golden Goose (EXP boost, premium pass, tiket event, ...).
+-- Jenis efek didefinisikan per user beserta durasinya; efek aktif per karakter disimpan
+-- sampai expiry, lalu dibersihkan oleh daily reset.
+
+create table public.effect_types (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  label text not null check (length(trim(label)) > 0),
+  duration_hours integer not null check (duration_hours between 1 and 8760),
+  created_at timestamptz not null default now(),
+  unique (user_id, label)
+);
+
+alter table public.effect_types enable row level security;
+
+create policy "effect_types: owner access" on public.effect_types
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- satu baris per (karakter, jenis efek) yang sedang aktif; aktifkan lagi = perpanjang dari sekarang
+create table public.character_effects (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  character_id uuid not null references public.characters (id) on delete cascade,
+  effect_type_id bigint not null references public.effect_types (id) on delete cascade,
+  started_at timestamptz not null default now(),
+  -- diisi trigger dari durasi jenis efek saat diaktifkan
+  expires_at timestamptz not null,
+  unique (character_id, effect_type_id)
+);
+
+create index character_effects_user_idx on public.character_effects (user_id, expires_at);
+
+alter table public.character_effects enable row level security;
+
+create policy "character_effects: owner access" on public.character_effects
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.characters c
+      where c.id = character_id and c.user_id = auth.uid()
+    )
+    and exists (
+      select 1 from public.effect_types t
+      where t.id = effect_type_id and t.user_id = auth.uid()
+    )
+  );
+
+-- durasi diambil dari effect_types, client cukup kirim karakter + jenis (+ started_at)
+create or replace function public.set_effect_expiry()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  select new.started_at + make_interval(hours => t.duration_hours) into new.expires_at
+  from effect_types t
+  where t.id = new.effect_type_id;
+  return new;
+end;
+$$;
+
+create trigger character_effects_set_expiry
+  before insert or update of started_at, effect_type_id on public.character_effects
+  for each row execute function public.set_effect_expiry();
+
+-- step daily reset: efek yang sudah lewat expiry dihapus
+create or replace function public.clear_expired_effects_rpc(p_region text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  deleted integer;
+begin
+  delete from character_effects ce
+  where ce.expires_at <= now()
+    and user_region(ce.user_id) = p_region;
+
+  get diagnostics deleted = row_count;
+  return deleted;
+end;
+$$;
+
+revoke execute on function public.clear_expired_effects_rpc(text) from public, anon, authenticated;
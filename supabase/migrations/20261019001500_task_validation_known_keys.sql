@@ -0,0 +1,28 @@
+-- Key yang sudah dihapus dari katalog tetap terbawa di daily_state.tasks (reset menulis
+-- `tasks || task_defaults(..)`), jadi validasi cuma untuk key yang masih ada di katalog.
+-- Sebelumnya key tak dikenal ditolak, dan menghapus satu baris task_definitions bikin
+-- semua reset gagal.
+create or replace function public.validate_task_values()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  entry record;
+begin
+  for entry in
+    select t.key, t.value, d.options
+    from jsonb_each(coalesce(new.tasks, '{}'::jsonb)) t
+    join task_definitions d on d.key = t.key
+  loop
+    if entry.value <> 'null'::jsonb
+      and not exists (
+        select 1 from jsonb_array_elements(entry.options) option
+        where option->'value' = entry.value
+      ) then
+      raise exception 'Invalid value % for task %', entry.value, entry.key using errcode = '22023';
+    end if;
+  end loop;
+  return new;
+end;
+$$;
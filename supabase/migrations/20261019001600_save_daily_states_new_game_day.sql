@@ -0,0 +1,86 @@
+-- Cron reset jalan tiap jam: sampai satu jam setelah jam reset, client sudah pakai game day baru
+-- tapi daily_reset_rpc belum jalan, dan reset melewati karakter yang sudah punya baris hari itu.
+-- Jadi baris pertama game day baru yang dibuat lewat edit langsung direset di sini.
+-- golden yang sudah lewat masa aktifnya (aturan daily_reset_rpc: 7 hari sejak mulai)
+create or replace function public.golden_lapsed(p_character_id uuid, p_started_at timestamptz)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select p_started_at is not null and p_started_at <= now() - interval '7 days';
+$$;
+
+create or replace function public.save_daily_states(p_rows jsonb)
+returns setof public.daily_state
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  item jsonb;
+  current_row daily_state%rowtype;
+  latest_row daily_state%rowtype;
+  base integer;
+begin
+  for item in select value from jsonb_array_elements(p_rows) loop
+    base := (item->>'base_revision')::integer;
+
+    select * into current_row
+    from daily_state
+    where character_id = (item->>'character_id')::uuid
+      and date = (item->>'date')::date
+    for update;
+
+    if found then
+      if base is null or current_row.revision <> base then
+        raise exception 'stale_write'
+          using errcode = '40001', detail = item->>'character_id', hint = 'Reload the row and retry';
+      end if;
+
+      return query
+      update daily_state
+      set
+        tasks = daily_state.tasks || coalesce(item->'tasks', '{}'::jsonb),
+        golden_active = case when item ? 'golden_active' then (item->>'golden_active')::boolean else daily_state.golden_active end,
+        golden_started_at = case when item ? 'golden_started_at' then (item->>'golden_started_at')::timestamptz else daily_state.golden_started_at end
+      where character_id = current_row.character_id
+        and date = current_row.date
+      returning *;
+    else
+      if base is not null then
+        raise exception 'stale_write'
+          using errcode = '40001', detail = item->>'character_id', hint = 'Reload the row and retry';
+      end if;
+
+      -- belum ada baris untuk game day ini: lanjutkan dari baris terakhir karakter
+      select * into latest_row
+      from daily_state
+      where character_id = (item->>'character_id')::uuid
+      order by date desc
+      limit 1;
+
+      -- daily reset belum sampai ke karakter ini: task daily -> default, golden lewat expiry dimatikan
+      if latest_row.date < (item->>'date')::date then
+        latest_row.tasks := latest_row.tasks || task_defaults('daily');
+        if golden_lapsed(latest_row.character_id, latest_row.golden_started_at) then
+          latest_row.golden_active := false;
+          latest_row.golden_started_at := null;
+        end if;
+      end if;
+
+      return query
+      insert into daily_state (user_id, character_id, date, tasks, golden_active, golden_started_at)
+      values (
+        auth.uid(),
+        (item->>'character_id')::uuid,
+        (item->>'date')::date,
+        coalesce(latest_row.tasks, '{}'::jsonb) || coalesce(item->'tasks', '{}'::jsonb),
+        case when item ? 'golden_active' then (item->>'golden_active')::boolean else coalesce(latest_row.golden_active, false) end,
+        case when item ? 'golden_started_at' then (item->>'golden_started_at')::timestamptz else latest_row.golden_started_at end
+      )
+      returning *;
+    end if;
+  end loop;
+end;
+$$;
@@ -0,0 +1,3 @@
+-- user_region security definer dan menerima user id siapa saja; cuma dipakai RPC reset
+-- (juga security definer), jadi tidak perlu bisa dipanggil client.
+revoke execute on function public.user_region(uuid) from public, anon, authenticated;
@@ -0,0 +1,218 @@
+-- Edit offline yang baru terkirim setelah daily reset masih membawa game day lamanya, padahal
+-- baris daily_state hari itu sudah digeser reset dan snapshot-nya sudah masuk history_log.
+-- Patch seperti itu sekarang diterapkan ke baris history_log tanggal tersebut, dan bagian yang
+-- memang terbawa lewat reset (task non-daily, golden) ikut diterapkan ke baris terbaru.
+
+-- expiry snapshot dihitung dari golden_started_at kalau penulisnya tidak mengisi sendiri
+-- (patch offline di atas, import tanpa kolom golden_expired_at)
+create or replace function public.fill_golden_expired_at()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.golden_started_at is null then
+    return new;
+  end if;
+  if new.golden_expired_at is null
+    or (tg_op = 'UPDATE'
+      and new.golden_started_at is distinct from old.golden_started_at
+      and new.golden_expired_at is not distinct from old.golden_expired_at) then
+    new.golden_expired_at := new.golden_started_at + interval '7 days';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger history_log_fill_golden_expired_at
+  before insert or update of golden_started_at, golden_expired_at on public.history_log
+  for each row execute function public.fill_golden_expired_at();
+
+-- cuma dipanggil save_daily_states (yang sudah memastikan karakternya milik pemanggil);
+-- history_log read-only lewat RLS dan tidak bisa ditulis client langsung
+create or replace function public.apply_history_patch(p_item jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  entry record;
+  definition task_definitions%rowtype;
+begin
+  -- validasi sama seperti daily_state, plus key di luar katalog ditolak (patch cuma berisi task board)
+  for entry in select key, value from jsonb_each(coalesce(p_item->'tasks', '{}'::jsonb)) loop
+    select * into definition from task_definitions where key = entry.key;
+    if not found then
+      raise exception 'Unknown task key: %', entry.key using errcode = '22023';
+    end if;
+    if entry.value <> 'null'::jsonb
+      and not exists (
+        select 1 from jsonb_array_elements(definition.options) option
+        where option->'value' = entry.value
+      ) then
+      raise exception 'Invalid value % for task %', entry.value, entry.key using errcode = '22023';
+    end if;
+  end loop;
+
+  update history_log h
+  set
+    tasks = h.tasks || coalesce(p_item->'tasks', '{}'::jsonb),
+    golden_active = case when p_item ? 'golden_active' then (p_item->>'golden_active')::boolean else h.golden_active end,
+    golden_started_at = case
+      when p_item ? 'golden_started_at' then (p_item->>'golden_started_at')::timestamptz
+      else h.golden_started_at
+    end,
+    -- diisi ulang trigger fill_golden_expired_at dari waktu mulai yang baru
+    golden_expired_at = case when p_item ? 'golden_started_at' then null else h.golden_expired_at end
+  where h.character_id = (p_item->>'character_id')::uuid
+    and h.snapshot_date = (p_item->>'date')::date;
+end;
+$$;
+
+revoke execute on function public.apply_history_patch(jsonb) from public, anon, authenticated;
+
+-- sekarang security definer supaya bisa menulis history_log lewat apply_history_patch;
+-- kepemilikan karakter dicek sendiri per item (sebelumnya lewat RLS daily_state)
+create or replace function public.save_daily_states(p_rows jsonb)
+returns setof public.daily_state
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  item jsonb;
+  current_row daily_state%rowtype;
+  latest_row daily_state%rowtype;
+  snapshot history_log%rowtype;
+  carried jsonb;
+  carry_golden boolean;
+  base integer;
+begin
+  if uid is null then
+    raise exception 'not_authenticated' using errcode = '42501';
+  end if;
+
+  for item in select value from jsonb_array_elements(p_rows) loop
+    base := (item->>'base_revision')::integer;
+
+    if not exists (
+      select 1 from characters c
+      where c.id = (item->>'character_id')::uuid and c.user_id = uid
+    ) then
+      raise exception 'Unknown character' using errcode = '42501';
+    end if;
+
+    select * into latest_row
+    from daily_state
+    where character_id = (item->>'character_id')::uuid
+    order by date desc
+    limit 1;
+
+    -- game day itu sudah lewat (karakter sudah punya baris lebih baru) dan sudah di-snapshot:
+    -- tulis ke history_log-nya, bukan ke baris daily_state lama
+    if latest_row.date > (item->>'date')::date then
+      select * into snapshot
+      from history_log h
+      where h.character_id = (item->>'character_id')::uuid
+        and h.snapshot_date = (item->>'date')::date
+      for update;
+
+      if found then
+        -- task non-daily & golden terbawa lewat reset, jadi ikut dipindah ke baris terbaru,
+        -- tapi cuma field yang di sana belum berubah sejak snapshot (perubahan hari baru menang)
+        select coalesce(jsonb_object_agg(t.key, t.value), '{}'::jsonb) into carried
+        from jsonb_each(coalesce(item->'tasks', '{}'::jsonb)) t
+        join task_definitions d on d.key = t.key and d.reset_cadence <> 'daily'
+        where latest_row.tasks->t.key is not distinct from snapshot.tasks->t.key;
+
+        carry_golden := (item ? 'golden_active' or item ? 'golden_started_at')
+          and latest_row.golden_active is not distinct from snapshot.golden_active
+          and latest_row.golden_started_at is not distinct from snapshot.golden_started_at;
+
+        perform apply_history_patch(item);
+
+        -- baris terbaru selalu dikembalikan: tanggalnya beda dari patch = tanda buat client
+        -- bahwa patch masuk ke history hari itu
+        if carried = '{}'::jsonb and not carry_golden then
+          return query
+          select * from daily_state
+          where character_id = latest_row.character_id
+            and date = latest_row.date;
+        else
+          return query
+          update daily_state
+          set
+            tasks = daily_state.tasks || carried,
+            golden_active = case
+              when carry_golden and item ? 'golden_active' then (item->>'golden_active')::boolean
+              else daily_state.golden_active
+            end,
+            golden_started_at = case
+              when carry_golden and item ? 'golden_started_at' then (item->>'golden_started_at')::timestamptz
+              else daily_state.golden_started_at
+            end
+          where character_id = latest_row.character_id
+            and date = latest_row.date
+          returning *;
+        end if;
+        continue;
+      end if;
+    end if;
+
+    select * into current_row
+    from daily_state
+    where character_id = (item->>'character_id')::uuid
+      and date = (item->>'date')::date
+    for update;
+
+    if found then
+      if base is null or current_row.revision <> base then
+        raise exception 'stale_write'
+          using errcode = '40001', detail = item->>'character_id', hint = 'Reload the row and retry';
+      end if;
+
+      return query
+      update daily_state
+      set
+        tasks = daily_state.tasks || coalesce(item->'tasks', '{}'::jsonb),
+        golden_active = case when item ? 'golden_active' then (item->>'golden_active')::boolean else daily_state.golden_active end,
+        golden_started_at = case when item ? 'golden_started_at' then (item->>'golden_started_at')::timestamptz else daily_state.golden_started_at end
+      where character_id = current_row.character_id
+        and date = current_row.date
+      returning *;
+    else
+      if base is not null then
+        raise exception 'stale_write'
+          using errcode = '40001', detail = item->>'character_id', hint = 'Reload the row and retry';
+      end if;
+
+      -- belum ada baris untuk game day ini: lanjutkan dari baris terakhir karakter (latest_row di atas)
+      -- daily reset belum sampai ke karakter ini: task daily -> default, golden lewat expiry dimatikan
+      if latest_row.date < (item->>'date')::date then
+        latest_row.tasks := latest_row.tasks || task_defaults('daily');
+        if golden_lapsed(latest_row.character_id, latest_row.golden_started_at) then
+          latest_row.golden_active := false;
+          latest_row.golden_started_at := null;
+        end if;
+      end if;
+
+      return query
+      insert into daily_state (user_id, character_id, date, tasks, golden_active, golden_started_at)
+      values (
+        uid,
+        (item->>'character_id')::uuid,
+        (item->>'date')::date,
+        coalesce(latest_row.tasks, '{}'::jsonb) || coalesce(item->'tasks', '{}'::jsonb),
+        case when item ? 'golden_active' then (item->>'golden_active')::boolean else coalesce(latest_row.golden_active, false) end,
+        case when item ? 'golden_started_at' then (item->>'golden_started_at')::timestamptz else latest_row.golden_started_at end
+      )
+      returning *;
+    end if;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.save_daily_states(jsonb) from public, anon;
+grant execute on function public.save_daily_states(jsonb) to authenticated;
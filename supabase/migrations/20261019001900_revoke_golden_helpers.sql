@@ -0,0 +1,4 @@
+-- Helper golden security definer dan menerima user / karakter siapa saja; cuma dipakai trigger
+-- dan RPC reset (juga security definer), jadi tidak perlu bisa dipanggil client.
+revoke execute on function public.user_golden_hours(uuid) from public, anon, authenticated;
+revoke execute on function public.golden_expired(uuid, timestamptz) from public, anon, authenticated;
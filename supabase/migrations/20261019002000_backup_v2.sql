@@ -0,0 +1,202 @@
+-- Backup v2 (lihat src/lib/backup.ts): ikut memulihkan durasi Golden Goose, riwayat
+-- golden_activations, jenis efek berwaktu dan efek aktif per karakter. File v1 tetap diterima.
+
+create or replace function public.restore_backup(p_archive jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  item jsonb;
+  character_id_new uuid;
+  id_map jsonb := '{}'::jsonb;
+  base_order integer;
+  created integer := 0;
+  matched integer := 0;
+  states integer := 0;
+  snapshots integer := 0;
+  activations integer := 0;
+  effect_types_restored integer := 0;
+  effects integer := 0;
+  type_map jsonb := '{}'::jsonb;
+  effect_type_id_new bigint;
+  clean_tasks jsonb;
+begin
+  if uid is null then
+    raise exception 'not_authenticated' using errcode = '42501';
+  end if;
+
+  -- v1 belum punya golden_activations / efek; bagian itu cukup kosong
+  if coalesce((p_archive->>'version')::integer, 0) not in (1, 2) then
+    raise exception 'Unsupported backup version %', p_archive->>'version' using errcode = '22023';
+  end if;
+
+  -- pengaturan dulu, supaya trigger aktivasi golden saat daily_state dipulihkan pakai durasi dari backup
+  if exists (select 1 from server_regions where key = p_archive->'settings'->>'region') then
+    insert into user_settings (user_id, region, updated_at)
+    values (uid, p_archive->'settings'->>'region', now())
+    on conflict (user_id) do update set region = excluded.region, updated_at = excluded.updated_at;
+  end if;
+
+  if (p_archive->'settings'->>'golden_duration_hours')::integer between 1 and 720 then
+    insert into user_settings (user_id, golden_duration_hours, updated_at)
+    values (uid, (p_archive->'settings'->>'golden_duration_hours')::integer, now())
+    on conflict (user_id) do update
+      set golden_duration_hours = excluded.golden_duration_hours, updated_at = excluded.updated_at;
+  end if;
+
+  -- karakter baru ditaruh di belakang karakter yang sudah ada
+  select coalesce(max(sort_order), 0) into base_order from characters where user_id = uid;
+
+  for item in select value from jsonb_array_elements(coalesce(p_archive->'characters', '[]'::jsonb)) loop
+    -- akun yang sama: id lama masih ada; akun lain: cocokkan nama; selain itu buat baru
+    select id into character_id_new
+    from characters
+    where user_id = uid and id::text = item->>'id';
+
+    if not found then
+      select id into character_id_new
+      from characters
+      where user_id = uid and lower(name) = lower(item->>'name')
+      order by archived_at nulls first
+      limit 1;
+    end if;
+
+    if found then
+      matched := matched + 1;
+    else
+      insert into characters (user_id, name, sort_order, archived_at)
+      values (
+        uid,
+        item->>'name',
+        base_order + coalesce((item->>'sort_order')::integer, 0),
+        (item->>'archived_at')::timestamptz
+      )
+      returning id into character_id_new;
+      created := created + 1;
+    end if;
+
+    id_map := id_map || jsonb_build_object(item->>'id', character_id_new);
+  end loop;
+
+  for item in select value from jsonb_array_elements(coalesce(p_archive->'daily_state', '[]'::jsonb)) loop
+    character_id_new := (id_map->>(item->>'character_id'))::uuid;
+    continue when character_id_new is null;
+
+    -- key yang sudah dihapus dari katalog dibuang
+    select coalesce(jsonb_object_agg(t.key, t.value), '{}'::jsonb) into clean_tasks
+    from jsonb_each(coalesce(item->'tasks', '{}'::jsonb)) t
+    where t.key in (select key from task_definitions);
+
+    update daily_state
+    set
+      tasks = clean_tasks,
+      golden_active = coalesce((item->>'golden_active')::boolean, false),
+      golden_started_at = (item->>'golden_started_at')::timestamptz
+    where daily_state.character_id = character_id_new
+      and date = (item->>'date')::date;
+
+    if not found then
+      insert into daily_state (user_id, character_id, date, tasks, golden_active, golden_started_at)
+      values (
+        uid,
+        character_id_new,
+        (item->>'date')::date,
+        clean_tasks,
+        coalesce((item->>'golden_active')::boolean, false),
+        (item->>'golden_started_at')::timestamptz
+      );
+    end if;
+    states := states + 1;
+  end loop;
+
+  insert into history_log (
+    user_id, character_id, character_name, snapshot_date, tasks,
+    golden_active, golden_started_at, golden_expired_at
+  )
+  select
+    uid,
+    (id_map->>(item->>'character_id'))::uuid,
+    item->>'character_name',
+    (item->>'snapshot_date')::date,
+    -- sama seperti daily_state: key yang sudah dihapus dari katalog tidak dipulihkan
+    (
+      select coalesce(jsonb_object_agg(t.key, t.value), '{}'::jsonb)
+      from jsonb_each(coalesce(item->'tasks', '{}'::jsonb)) t
+      where t.key in (select key from task_definitions)
+    ),
+    coalesce((item->>'golden_active')::boolean, false),
+    (item->>'golden_started_at')::timestamptz,
+    (item->>'golden_expired_at')::timestamptz
+  from jsonb_array_elements(coalesce(p_archive->'history_log', '[]'::jsonb)) item
+  where id_map ? (item->>'character_id')
+  on conflict (character_id, snapshot_date) do update
+  set
+    character_name = excluded.character_name,
+    -- di-merge, key snapshot yang tidak ada di backup tetap dipertahankan
+    tasks = history_log.tasks || excluded.tasks,
+    golden_active = excluded.golden_active,
+    golden_started_at = excluded.golden_started_at,
+    golden_expired_at = excluded.golden_expired_at;
+  get diagnostics snapshots = row_count;
+
+  -- sesudah daily_state: record dari backup menimpa yang barusan dibuat trigger untuk started_at yang sama
+  insert into golden_activations (user_id, character_id, started_at, duration_hours, expires_at, ended_at, end_reason)
+  select
+    uid,
+    (id_map->>(item->>'character_id'))::uuid,
+    (item->>'started_at')::timestamptz,
+    (item->>'duration_hours')::integer,
+    (item->>'expires_at')::timestamptz,
+    (item->>'ended_at')::timestamptz,
+    item->>'end_reason'
+  from jsonb_array_elements(coalesce(p_archive->'golden_activations', '[]'::jsonb)) item
+  where id_map ? (item->>'character_id')
+  on conflict (character_id, started_at) do update
+  set
+    duration_hours = excluded.duration_hours,
+    expires_at = excluded.expires_at,
+    ended_at = excluded.ended_at,
+    end_reason = excluded.end_reason;
+  get diagnostics activations = row_count;
+
+  -- jenis efek dicocokkan per label (unik per user), id lama dipetakan ke id baru
+  for item in select value from jsonb_array_elements(coalesce(p_archive->'effect_types', '[]'::jsonb)) loop
+    insert into effect_types (user_id, label, duration_hours)
+    values (uid, item->>'label', (item->>'duration_hours')::integer)
+    on conflict (user_id, label) do update set duration_hours = excluded.duration_hours
+    returning id into effect_type_id_new;
+
+    type_map := type_map || jsonb_build_object(item->>'id', effect_type_id_new);
+    effect_types_restored := effect_types_restored + 1;
+  end loop;
+
+  -- expires_at dihitung ulang trigger dari started_at + durasi jenisnya
+  insert into character_effects (user_id, character_id, effect_type_id, started_at)
+  select
+    uid,
+    (id_map->>(item->>'character_id'))::uuid,
+    (type_map->>(item->>'effect_type_id'))::bigint,
+    (item->>'started_at')::timestamptz
+  from jsonb_array_elements(coalesce(p_archive->'character_effects', '[]'::jsonb)) item
+  where id_map ? (item->>'character_id')
+    and type_map ? (item->>'effect_type_id')
+  on conflict (character_id, effect_type_id) do update set started_at = excluded.started_at;
+  get diagnostics effects = row_count;
+
+  return jsonb_build_object(
+    'characters_created', created,
+    'characters_matched', matched,
+    'daily_state', states,
+    'history_log', snapshots,
+    'golden_activations', activations,
+    'effect_types', effect_types_restored,
+    'character_effects', effects
+  );
+end;
+$$;
+
+revoke execute on function public.restore_backup(jsonb) from public, anon;
+grant execute on function public.restore_backup(jsonb) to authenticated;
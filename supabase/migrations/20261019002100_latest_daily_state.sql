@@ -0,0 +1,11 @@
+-- Baris daily_state terbaru per karakter untuk board. Baris game day lama bisa tertinggal
+-- (edit sebelum reset membuat baris baru), jadi tabelnya terus tumbuh; board tidak perlu
+-- membaca semuanya dan tidak terpotong max-rows PostgREST.
+create view public.latest_daily_state
+with (security_invoker = true)
+as
+select distinct on (character_id) *
+from public.daily_state
+order by character_id, date desc;
+
+grant select on public.latest_daily_state to authenticated;
@@ -0,0 +1,38 @@
+-- Reset game day baru di save_daily_states dan expiry snapshot history_log sebelumnya masih pakai
+-- aturan tetap 7 hari. Sekarang ikut record golden_activations / durasi setting user.
+
+-- sama dengan golden_expired; dipanggil save_daily_states (security definer)
+create or replace function public.golden_lapsed(p_character_id uuid, p_started_at timestamptz)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select golden_expired(p_character_id, p_started_at);
+$$;
+
+-- expiry dari record aktivasinya; tanpa record (import data lama) -> durasi setting user.
+-- security definer karena user_golden_hours tidak bisa dipanggil client.
+create or replace function public.fill_golden_expired_at()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.golden_started_at is null then
+    return new;
+  end if;
+  if new.golden_expired_at is null
+    or (tg_op = 'UPDATE'
+      and new.golden_started_at is distinct from old.golden_started_at
+      and new.golden_expired_at is not distinct from old.golden_expired_at) then
+    new.golden_expired_at := coalesce(
+      (select ga.expires_at from golden_activations ga
+       where ga.character_id = new.character_id and ga.started_at = new.golden_started_at),
+      new.golden_started_at + make_interval(hours => user_golden_hours(new.user_id))
+    );
+  end if;
+  return new;
+end;
+$$;